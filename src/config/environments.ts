@@ -0,0 +1,164 @@
+import fs from "node:fs"
+import path from "node:path"
+import { inferGrantType, missingCredentials } from "../tools/clients/auth-client.js"
+import type { GrantType } from "../types/types.js"
+
+// OrderCloud API base URLs by environment and region
+export const REGION_BASE_URLS: Record<string, string> = {
+  sandbox: "https://sandboxapi.ordercloud.io",
+  "sandbox-us-east": "https://useast-sandbox.ordercloud.io",
+  "sandbox-europe-west": "https://westeurope-sandbox.ordercloud.io",
+  "sandbox-australia-east": "https://australiaeast-sandbox.ordercloud.io",
+  "sandbox-japan-east": "https://japaneast-sandbox.ordercloud.io",
+  staging: "https://stagingapi.ordercloud.io",
+  production: "https://api.ordercloud.io",
+  "production-us-east": "https://useast-production.ordercloud.io",
+  "production-europe-west": "https://westeurope-production.ordercloud.io",
+  "production-australia-east": "https://australiaeast-production.ordercloud.io",
+  "production-japan-east": "https://japaneast-production.ordercloud.io",
+}
+
+export interface EnvironmentProfile {
+  name: string
+  description?: string
+  baseURL: string
+  grantType: GrantType
+  clientId: string
+  clientSecret?: string
+  username?: string
+  password?: string
+  refreshToken?: string
+  scope: string
+  // why the profile can't be used, e.g. its ${VAR} credentials aren't set in this deployment
+  unavailable?: string
+}
+
+export interface EnvironmentConfig {
+  defaultEnvironment: string
+  profiles: Record<string, EnvironmentProfile>
+}
+
+// Shape of a single entry in the profile file, before defaults are applied
+interface RawProfile {
+  description?: string
+  baseURL?: string
+  region?: string
+  grantType?: GrantType
+  clientId?: string
+  clientSecret?: string
+  username?: string
+  password?: string
+  refreshToken?: string
+  scope?: string
+}
+
+const DEFAULT_PROFILE_FILE = "ordercloud.environments.json"
+
+/**
+ * Loads the named environment profiles.
+ *
+ * Profiles come from the JSON file named by ORDERCLOUD_ENVIRONMENTS_FILE (or
+ * ordercloud.environments.json in the working directory). Without a file, a single
+ * "default" profile is built from the ORDERCLOUD_* variables. String values may
+ * reference environment variables as ${NAME} so secrets can stay out of the file.
+ */
+export function loadEnvironments(env: NodeJS.ProcessEnv = process.env): EnvironmentConfig {
+  const file = path.resolve(env.ORDERCLOUD_ENVIRONMENTS_FILE ?? DEFAULT_PROFILE_FILE)
+
+  let defaultEnvironment: string
+  let rawProfiles: Record<string, RawProfile>
+
+  if (fs.existsSync(file)) {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8"))
+    if (!parsed.environments || typeof parsed.environments !== "object") {
+      throw new Error(`${file} must define an "environments" object`)
+    }
+    rawProfiles = parsed.environments
+    defaultEnvironment = env.ORDERCLOUD_ENVIRONMENT ?? parsed.default ?? Object.keys(rawProfiles)[0]
+  } else if (env.ORDERCLOUD_ENVIRONMENTS_FILE) {
+    throw new Error(`Environment profile file not found: ${file}`)
+  } else {
+    defaultEnvironment = "default"
+    rawProfiles = {
+      default: {
+        baseURL: env.ORDERCLOUD_BASE_URL,
+        region: env.ORDERCLOUD_REGION,
+        grantType: env.ORDERCLOUD_GRANT_TYPE as GrantType | undefined,
+        clientId: env.ORDERCLOUD_CLIENT_ID,
+        clientSecret: env.ORDERCLOUD_CLIENT_SECRET,
+        username: env.ORDERCLOUD_USERNAME,
+        password: env.ORDERCLOUD_PASSWORD,
+        refreshToken: env.ORDERCLOUD_REFRESH_TOKEN,
+        scope: env.ORDERCLOUD_SCOPE,
+      },
+    }
+  }
+
+  const profiles: Record<string, EnvironmentProfile> = {}
+  for (const [name, raw] of Object.entries(rawProfiles)) {
+    profiles[name] = resolveProfile(name, expandVariables(raw, env))
+  }
+
+  if (!profiles[defaultEnvironment]) {
+    throw new Error(`Default environment "${defaultEnvironment}" is not defined`)
+  }
+  // other profiles may lack credentials here and are only refused when switched to
+  const unavailable = profiles[defaultEnvironment].unavailable
+  if (unavailable) {
+    throw new Error(`Environment "${defaultEnvironment}": ${unavailable}`)
+  }
+
+  return { defaultEnvironment, profiles }
+}
+
+// Options for OrderCloudClient from a profile
+export function clientOptions(profile: EnvironmentProfile) {
+  const { name, description, unavailable, ...options } = profile
+  return { ...options, environment: name }
+}
+
+function resolveProfile(name: string, raw: RawProfile): EnvironmentProfile {
+  let baseURL = raw.baseURL
+  if (!baseURL) {
+    const region = raw.region ?? "sandbox"
+    baseURL = REGION_BASE_URLS[region]
+    if (!baseURL) {
+      throw new Error(`Environment "${name}": unknown region "${region}" (expected one of ${Object.keys(REGION_BASE_URLS).join(", ")})`)
+    }
+  }
+
+  const grantType = raw.grantType ?? inferGrantType(raw)
+  if (!["password", "client_credentials", "refresh_token"].includes(grantType)) {
+    throw new Error(`Environment "${name}": unsupported grant type "${grantType}"`)
+  }
+
+  const profile: EnvironmentProfile = {
+    name,
+    description: raw.description,
+    baseURL: baseURL.replace(/\/+$/, ""),
+    grantType,
+    clientId: raw.clientId ?? "",
+    clientSecret: raw.clientSecret,
+    username: raw.username,
+    password: raw.password,
+    refreshToken: raw.refreshToken,
+    scope: raw.scope ?? "FullAccess",
+  }
+
+  const missing = missingCredentials(profile)
+  if (missing.length > 0) {
+    profile.unavailable = `missing ${missing.join(", ")} for the ${grantType} grant`
+  }
+
+  return profile
+}
+
+// Replace ${NAME} references in string values with environment variables
+function expandVariables(raw: RawProfile, env: NodeJS.ProcessEnv): RawProfile {
+  const expanded: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(raw)) {
+    expanded[key] =
+      typeof value === "string" ? value.replace(/\$\{(\w+)\}/g, (_, variable: string) => env[variable] ?? "") : value
+  }
+  return expanded as RawProfile
+}
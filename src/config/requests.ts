@@ -0,0 +1,79 @@
+import { DEFAULT_TIMEOUT_MS, type RequestOptions } from "../tools/clients/base-client.js"
+import { DEFAULT_RETRY_OPTIONS } from "../tools/utils/retry.js"
+import { DEFAULT_REQUEST_LIMITS, RequestLimiter } from "../tools/utils/request-limiter.js"
+import { DEFAULT_CACHE_OPTIONS, type CacheOptions } from "../tools/utils/response-cache.js"
+import { parseBoolean } from "./toolsets.js"
+
+/**
+ * Loads how OrderCloud requests are timed out, retried and rate limited.
+ *
+ * ORDERCLOUD_TIMEOUT_MS bounds each attempt. ORDERCLOUD_MAX_RETRIES,
+ * ORDERCLOUD_RETRY_BASE_DELAY_MS and ORDERCLOUD_RETRY_MAX_DELAY_MS shape the
+ * backoff for throttled (429), failing (5xx) and dropped requests; set
+ * ORDERCLOUD_MAX_RETRIES=0 to send every request only once.
+ *
+ * ORDERCLOUD_MAX_CONCURRENT_REQUESTS and ORDERCLOUD_REQUESTS_PER_SECOND (0 for no cap)
+ * limit traffic through one limiter shared by every client the options are given to.
+ *
+ * ORDERCLOUD_CACHE=true caches GET responses for ORDERCLOUD_CACHE_TTL_SECONDS, or per
+ * resource with ORDERCLOUD_CACHE_TTLS such as "products=30,categories=600".
+ */
+export function loadRequestOptions(env: NodeJS.ProcessEnv = process.env): RequestOptions {
+  return {
+    timeoutMs: parseCount("ORDERCLOUD_TIMEOUT_MS", env.ORDERCLOUD_TIMEOUT_MS, DEFAULT_TIMEOUT_MS, 1),
+    retry: {
+      maxRetries: parseCount("ORDERCLOUD_MAX_RETRIES", env.ORDERCLOUD_MAX_RETRIES, DEFAULT_RETRY_OPTIONS.maxRetries, 0),
+      baseDelayMs: parseCount("ORDERCLOUD_RETRY_BASE_DELAY_MS", env.ORDERCLOUD_RETRY_BASE_DELAY_MS, DEFAULT_RETRY_OPTIONS.baseDelayMs, 0),
+      maxDelayMs: parseCount("ORDERCLOUD_RETRY_MAX_DELAY_MS", env.ORDERCLOUD_RETRY_MAX_DELAY_MS, DEFAULT_RETRY_OPTIONS.maxDelayMs, 0),
+    },
+    limiter: new RequestLimiter({
+      maxConcurrent: parseCount(
+        "ORDERCLOUD_MAX_CONCURRENT_REQUESTS",
+        env.ORDERCLOUD_MAX_CONCURRENT_REQUESTS,
+        DEFAULT_REQUEST_LIMITS.maxConcurrent,
+        1,
+      ),
+      requestsPerSecond: parseCount(
+        "ORDERCLOUD_REQUESTS_PER_SECOND",
+        env.ORDERCLOUD_REQUESTS_PER_SECOND,
+        DEFAULT_REQUEST_LIMITS.requestsPerSecond,
+        0,
+      ),
+    }),
+    cache:
+      env.ORDERCLOUD_CACHE !== undefined && parseBoolean("ORDERCLOUD_CACHE", env.ORDERCLOUD_CACHE)
+        ? loadCacheOptions(env)
+        : undefined,
+  }
+}
+
+function loadCacheOptions(env: NodeJS.ProcessEnv): CacheOptions {
+  const ttlSeconds = { ...DEFAULT_CACHE_OPTIONS.ttlSeconds }
+  for (const entry of (env.ORDERCLOUD_CACHE_TTLS ?? "").split(",").filter((item) => item.trim())) {
+    const [resource, seconds] = entry.split("=").map((part) => part.trim())
+    if (!resource || seconds === undefined) {
+      throw new Error(`ORDERCLOUD_CACHE_TTLS entries must look like resource=seconds, got "${entry}"`)
+    }
+    ttlSeconds[resource] = parseCount(`ORDERCLOUD_CACHE_TTLS ${resource}`, seconds, 0, 0)
+  }
+
+  return {
+    ...DEFAULT_CACHE_OPTIONS,
+    defaultTtlSeconds: parseCount(
+      "ORDERCLOUD_CACHE_TTL_SECONDS",
+      env.ORDERCLOUD_CACHE_TTL_SECONDS,
+      DEFAULT_CACHE_OPTIONS.defaultTtlSeconds,
+      0,
+    ),
+    ttlSeconds,
+  }
+}
+
+function parseCount(name: string, value: string | undefined, fallback: number, min: number): number {
+  if (value === undefined || value.trim() === "") return fallback
+  const count = Number(value)
+  if (!Number.isInteger(count) || count < min) {
+    throw new Error(`${name} must be a whole number of at least ${min}, got "${value}"`)
+  }
+  return count
+}
@@ -0,0 +1,88 @@
+import fs from "node:fs"
+import path from "node:path"
+import { TOOLSETS, type Toolset } from "../tools/tool-policy.js"
+
+export interface ToolsetConfig {
+  // toolsets to register; every toolset when unset
+  enabled?: Toolset[]
+  // toolsets to leave out, applied after enabled
+  disabled: Toolset[]
+  // leave every create/update/patch/delete/save tool unregistered
+  readOnly: boolean
+  // answer write tools with the requests they would send instead of sending them
+  planMode: boolean
+  // ask the user before delete tools run
+  confirmDeletes: boolean
+}
+
+// Shape of the tools config file
+interface RawToolsetConfig {
+  toolsets?: string[]
+  disabledToolsets?: string[]
+  readOnly?: boolean
+  planMode?: boolean
+  confirmDeletes?: boolean
+}
+
+const DEFAULT_TOOLS_FILE = "ordercloud.tools.json"
+
+/**
+ * Loads which toolsets to register and whether write tools are left out or only planned.
+ *
+ * Settings come from the JSON file named by ORDERCLOUD_TOOLS_CONFIG (or
+ * ordercloud.tools.json in the working directory), and ORDERCLOUD_TOOLSETS,
+ * ORDERCLOUD_DISABLED_TOOLSETS, ORDERCLOUD_READ_ONLY, ORDERCLOUD_PLAN_MODE and
+ * ORDERCLOUD_CONFIRM_DELETES override the file. Deletes are confirmed unless turned off.
+ */
+export function loadToolsetConfig(env: NodeJS.ProcessEnv = process.env): ToolsetConfig {
+  const file = path.resolve(env.ORDERCLOUD_TOOLS_CONFIG ?? DEFAULT_TOOLS_FILE)
+
+  let raw: RawToolsetConfig = {}
+  if (fs.existsSync(file)) {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"))
+  } else if (env.ORDERCLOUD_TOOLS_CONFIG) {
+    throw new Error(`Tools config file not found: ${file}`)
+  }
+
+  const enabled = env.ORDERCLOUD_TOOLSETS !== undefined ? splitList(env.ORDERCLOUD_TOOLSETS) : raw.toolsets
+  const disabled = env.ORDERCLOUD_DISABLED_TOOLSETS !== undefined ? splitList(env.ORDERCLOUD_DISABLED_TOOLSETS) : raw.disabledToolsets
+  const readOnly = env.ORDERCLOUD_READ_ONLY !== undefined ? parseBoolean("ORDERCLOUD_READ_ONLY", env.ORDERCLOUD_READ_ONLY) : raw.readOnly
+  const planMode = env.ORDERCLOUD_PLAN_MODE !== undefined ? parseBoolean("ORDERCLOUD_PLAN_MODE", env.ORDERCLOUD_PLAN_MODE) : raw.planMode
+  const confirmDeletes =
+    env.ORDERCLOUD_CONFIRM_DELETES !== undefined
+      ? parseBoolean("ORDERCLOUD_CONFIRM_DELETES", env.ORDERCLOUD_CONFIRM_DELETES)
+      : raw.confirmDeletes
+
+  return {
+    enabled: enabled && validateToolsets(enabled),
+    disabled: validateToolsets(disabled ?? []),
+    readOnly: readOnly === true,
+    planMode: planMode === true,
+    confirmDeletes: confirmDeletes !== false,
+  }
+}
+
+export function isToolsetEnabled(toolset: Toolset, config: ToolsetConfig): boolean {
+  return (!config.enabled || config.enabled.includes(toolset)) && !config.disabled.includes(toolset)
+}
+
+function validateToolsets(names: string[]): Toolset[] {
+  const unknown = names.filter((name) => !(TOOLSETS as readonly string[]).includes(name))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown toolset ${unknown.join(", ")} (expected any of ${TOOLSETS.join(", ")})`)
+  }
+  return names as Toolset[]
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+export function parseBoolean(name: string, value: string): boolean {
+  if (["true", "1", "yes"].includes(value.toLowerCase())) return true
+  if (["false", "0", "no", ""].includes(value.toLowerCase())) return false
+  throw new Error(`${name} must be true or false, got "${value}"`)
+}
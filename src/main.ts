@@ -1,27 +1,103 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import dotenv from "dotenv"
 import OrderCloudClient from "./tools/ordercloud-client.js"
-import { registerAllTools } from "./tools/index.js"
+import { createServer } from "./server.js"
+import { startHttpServer, type HttpTransportMode } from "./transports/http.js"
+import { clientOptions, loadEnvironments, type EnvironmentConfig } from "./config/environments.js"
+import { loadToolsetConfig, type ToolsetConfig } from "./config/toolsets.js"
+import { loadRequestOptions } from "./config/requests.js"
+import type { RequestOptions } from "./tools/clients/base-client.js"
+import type { RoleFilterMode } from "./tools/tool-policy.js"
 
 dotenv.config()
 
-const { ORDERCLOUD_USERNAME, ORDERCLOUD_PASSWORD, ORDERCLOUD_CLIENT_ID, ORDERCLOUD_SCOPE = "FullAccess" } = process.env
+const {
+  ORDERCLOUD_ROLE_FILTER = "off",
+  TRANSPORT = "stdio",
+  MCP_HOST = "127.0.0.1",
+  MCP_PORT = "3000",
+  MCP_API_KEY,
+  MCP_ALLOW_UNAUTHENTICATED,
+  MCP_SESSION_IDLE_MINUTES = "30",
+} = process.env
 
-if (!ORDERCLOUD_USERNAME || !ORDERCLOUD_PASSWORD || !ORDERCLOUD_CLIENT_ID) {
-  console.error("Missing required environment variables.")
+if (!["off", "flag", "skip"].includes(ORDERCLOUD_ROLE_FILTER)) {
+  console.error(`Unsupported ORDERCLOUD_ROLE_FILTER: ${ORDERCLOUD_ROLE_FILTER} (expected off, flag or skip)`)
   process.exit(1)
 }
-const orderCloudClient = new OrderCloudClient({
-  username: ORDERCLOUD_USERNAME,
-  password: ORDERCLOUD_PASSWORD,
-  clientId: ORDERCLOUD_CLIENT_ID,
-  scope: ORDERCLOUD_SCOPE,
-})
+const roleFilter = ORDERCLOUD_ROLE_FILTER as RoleFilterMode
 
-const server = new McpServer({ name: "OrderCloud Server", version: "1.0.0" })
+if (!["stdio", "sse", "streamable-http"].includes(TRANSPORT)) {
+  console.error(`Unsupported TRANSPORT: ${TRANSPORT} (expected stdio, sse or streamable-http)`)
+  process.exit(1)
+}
+
+const port = Number(MCP_PORT)
+if (!Number.isInteger(port) || port < 0 || port > 65535) {
+  console.error(`Invalid MCP_PORT: ${MCP_PORT}`)
+  process.exit(1)
+}
+
+const idleMinutes = Number(MCP_SESSION_IDLE_MINUTES)
+if (!(idleMinutes > 0)) {
+  console.error(`Invalid MCP_SESSION_IDLE_MINUTES: ${MCP_SESSION_IDLE_MINUTES}`)
+  process.exit(1)
+}
+
+// an HTTP endpoint holding OrderCloud credentials must not be open by accident
+if (TRANSPORT !== "stdio" && !MCP_API_KEY && MCP_ALLOW_UNAUTHENTICATED !== "true") {
+  console.error("MCP_API_KEY is required for HTTP transports (set MCP_ALLOW_UNAUTHENTICATED=true to serve without one)")
+  process.exit(1)
+}
+
+let environments: EnvironmentConfig
+let toolsets: ToolsetConfig
+let requests: RequestOptions
+try {
+  environments = loadEnvironments()
+  toolsets = loadToolsetConfig()
+  requests = loadRequestOptions()
+} catch (error) {
+  console.error(`Invalid OrderCloud configuration: ${error instanceof Error ? error.message : String(error)}`)
+  process.exit(1)
+}
+
+const defaultProfile = environments.profiles[environments.defaultEnvironment]
+const options = { roleFilter, environments, toolsets }
+
+if (TRANSPORT === "stdio") {
+  const orderCloudClient = new OrderCloudClient({ ...clientOptions(defaultProfile), requests })
+
+  // role filtering needs the roles of the initial token
+  if (roleFilter !== "off") {
+    await orderCloudClient.ready
+  }
 
-registerAllTools(server, orderCloudClient)
+  const server = createServer(orderCloudClient, options)
+  const transport = new StdioServerTransport()
+  server.connect(transport)
+} else {
+  const httpServer = startHttpServer({
+    mode: TRANSPORT as HttpTransportMode,
+    host: MCP_HOST,
+    port,
+    apiKey: MCP_API_KEY,
+    idleTimeoutMs: idleMinutes * 60_000,
+    // every session authenticates on its own, so one caller's authenticate never replaces another's token
+    createSession: async () => {
+      const orderCloudClient = new OrderCloudClient({ ...clientOptions(defaultProfile), requests })
+      if (roleFilter !== "off") {
+        await orderCloudClient.ready
+      }
+      return { server: createServer(orderCloudClient, options), orderCloudClient }
+    },
+    health: () => ({ defaultEnvironment: { name: defaultProfile.name, baseURL: defaultProfile.baseURL } }),
+  })
 
-const transport = new StdioServerTransport()
-server.connect(transport)
\ No newline at end of file
+  const shutdown = () => {
+    httpServer.close(() => process.exit(0))
+    httpServer.closeAllConnections()
+  }
+  process.on("SIGINT", shutdown)
+  process.on("SIGTERM", shutdown)
+}
\ No newline at end of file
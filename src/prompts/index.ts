@@ -0,0 +1,7 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import OrderCloudClient from "../tools/ordercloud-client.js"
+import { registerWorkflowPrompts } from "./workflow-prompts.js"
+
+export function registerAllPrompts(server: McpServer, orderCloudClient: OrderCloudClient) {
+  registerWorkflowPrompts(server, orderCloudClient)
+}
@@ -0,0 +1,136 @@
+import { z } from "zod"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js"
+import OrderCloudClient from "../tools/ordercloud-client.js"
+
+// Turn a guided plan into the single user message a prompt expands to
+function plan(text: string) {
+  return {
+    messages: [{ role: "user" as const, content: { type: "text" as const, text: text.trim() } }],
+  }
+}
+
+// Lines only included when the argument they depend on was given
+const when = (condition: unknown, line: string) => (condition ? line : "")
+
+export function registerWorkflowPrompts(server: McpServer, orderCloudClient: OrderCloudClient) {
+  // only required arguments can offer completions
+  const completeCatalogIds = async (value: string) => {
+    try {
+      const { Items } = await orderCloudClient.catalogs.listCatalogs({
+        ...(value && { search: value, searchOn: ["ID", "Name"] }),
+        pageSize: 20,
+      })
+      return Items.map((catalog) => catalog.ID!)
+    } catch {
+      return []
+    }
+  }
+
+  // Prompt: Launch Product
+  server.registerPrompt(
+    "launch_product",
+    {
+      title: "Launch a New Product",
+      description: "Create a product with pricing, place it in a catalog and category, and make it visible to buyers",
+      argsSchema: {
+        productName: z.string().describe("Name of the new product"),
+        productId: z.string().optional().describe("ID for the product; OrderCloud generates one when omitted"),
+        price: z.string().optional().describe("Unit price, e.g. 49.99"),
+        catalogId: z.string().optional().describe("Catalog the product is sold in"),
+        categoryId: z.string().optional().describe("Category within the catalog"),
+        buyerId: z.string().optional().describe("Buyer organization that may purchase it"),
+      },
+    },
+    ({ productName, productId, price, catalogId, categoryId, buyerId }) =>
+      plan(`
+Launch the product "${productName}" in OrderCloud. Work through these steps in order, stopping to report if a step fails:
+
+1. Check it doesn't exist yet with list_products (search "${productId ?? productName}").
+2. Create the price schedule with create_price_schedule (name "${productName} pricing"), then add the base price with save_price_break (quantity 1${when(price, `, price ${price}`)}).
+3. Create the product with create_product (name "${productName}"${when(productId, `, id "${productId}"`)}, active true, defaultPriceScheduleId from step 2).
+4. If the product comes in sizes or colours, review list_product_specs and run generate_product_variants, then check list_product_variants.
+5. ${catalogId ? `Assign it to catalog "${catalogId}" with save_catalog_product_assignment.` : "Pick a catalog with list_catalogs and assign it with save_catalog_product_assignment."}
+6. ${categoryId ? `Place it in category "${categoryId}" with save_category_product_assignment.` : "Pick a category with list_categories and place it there with save_category_product_assignment."}
+7. ${buyerId ? `Make it purchasable for buyer "${buyerId}" with save_product_assignment.` : "Make it purchasable with save_product_assignment for each buyer that should see it."}
+8. Verify as a shopper: impersonate_user with one of the buyer's users, confirm it appears in list_me_products, then stop_impersonation.
+
+Preview any write with dryRun: true if you are unsure, and finish with a summary of the IDs you created.`),
+  )
+
+  // Prompt: Onboard Buyer
+  server.registerPrompt(
+    "onboard_buyer",
+    {
+      title: "Onboard a Buyer Organization",
+      description: "Create a buyer organization with its addresses and catalog access",
+      argsSchema: {
+        buyerName: z.string().describe("Name of the buyer organization"),
+        buyerId: z.string().optional().describe("ID for the buyer; OrderCloud generates one when omitted"),
+        catalogId: z.string().optional().describe("Catalog the buyer should shop from"),
+        address: z.string().optional().describe("Head office address, e.g. 1 Main St, Springfield, IL 62701, US"),
+      },
+    },
+    ({ buyerName, buyerId, catalogId, address }) =>
+      plan(`
+Onboard the buyer organization "${buyerName}". Work through these steps in order, stopping to report if a step fails:
+
+1. Make sure it doesn't exist yet with list_buyers (search "${buyerId ?? buyerName}").
+2. Create it with create_buyer (name "${buyerName}"${when(buyerId, `, id "${buyerId}"`)}, active true${when(catalogId, `, defaultCatalogId "${catalogId}"`)}).
+3. Add its addresses with create_address${when(address, ` starting with the head office: ${address}`)}, then share them with save_address_assignment (isShipping / isBilling as appropriate).
+4. ${catalogId ? `Give it access to catalog "${catalogId}" with save_catalog_assignment.` : "Choose its catalogs with list_catalogs and grant access with save_catalog_assignment."}
+5. Grant any products sold outside the catalog with save_product_assignment.
+6. Check the result with get_buyer, list_addresses and list_catalog_assignments, then summarize what was set up.`),
+  )
+
+  // Prompt: Seasonal Promotion
+  server.registerPrompt(
+    "seasonal_promotion",
+    {
+      title: "Set Up a Seasonal Promotion",
+      description: "Create a time-boxed promotion, with or without a code, and preview it before it goes live",
+      argsSchema: {
+        name: z.string().describe("Promotion name, e.g. Summer Sale"),
+        discount: z.string().describe("Discount, e.g. 15% or 10 off"),
+        startDate: z.string().describe("First day of the promotion (ISO date)"),
+        expirationDate: z.string().describe("Last day of the promotion (ISO date)"),
+        code: z.string().optional().describe("Code shoppers enter; omit for an automatically applied promotion"),
+        categoryId: z.string().optional().describe("Limit the discount to products in this category"),
+      },
+    },
+    ({ name, discount, startDate, expirationDate, code, categoryId }) =>
+      plan(`
+Set up the seasonal promotion "${name}" (${discount}, ${startDate} to ${expirationDate}). Work through these steps in order:
+
+1. Look for overlapping promotions with list_promotions so discounts don't stack unexpectedly.
+2. Write the OrderCloud expressions: an eligibleExpression${when(categoryId, ` restricted to items in category "${categoryId}"`)} and a valueExpression for ${discount}.
+3. Preview the promotion with ${code ? "create_promotion" : "create_promotion_no_code"} and dryRun: true (name "${name}"${when(code, `, code "${code}"`)}, startDate ${startDate}, expirationDate ${expirationDate}${when(!code, ", autoApply true")}).
+4. Once the expressions look right, create it for real with the same arguments.
+5. Read it back with get_promotion and confirm the dates, limits and whether it can combine with other promotions.
+6. Summarize the promotion ID${when(code, " and code")} for the merchandising team.`),
+  )
+
+  // Prompt: Audit Catalog
+  server.registerPrompt(
+    "audit_catalog",
+    {
+      title: "Audit a Catalog",
+      description: "Review a catalog for empty categories, unassigned or inactive products and missing prices",
+      argsSchema: {
+        catalogId: completable(z.string().describe("Catalog to audit"), completeCatalogIds),
+      },
+    },
+    ({ catalogId }) =>
+      plan(`
+Audit the catalog "${catalogId}" without changing anything. Use only read tools:
+
+1. Read the catalog with get_catalog and note whether it is active.
+2. List its categories with list_categories and its products with list_catalog_product_assignments.
+3. For each category, use list_category_product_assignments to find empty categories.
+4. For the catalog's products, use get_product to find ones that are inactive or have no defaultPriceScheduleId, and get_price_schedule to spot schedules without price breaks.
+5. Find products in the catalog that sit in no category.
+6. Check which buyers can see the catalog with list_catalog_assignments.
+
+Report the findings as a table of issues with the suggested fix tool for each (for example patch_product or save_category_product_assignment), but do not run the fixes.`),
+  )
+}
@@ -0,0 +1,290 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js"
+import OrderCloudClient from "../tools/ordercloud-client.js"
+import { grantedRoles, type RegisterToolsOptions } from "../tools/index.js"
+import { canReadToolset, type Toolset } from "../tools/tool-policy.js"
+import { isToolsetEnabled } from "../config/toolsets.js"
+import { DebugLogger } from "../tools/utils/debug.js"
+
+// How many entities a resource list or a completion offers
+const LIST_PAGE_SIZE = 100
+const COMPLETION_PAGE_SIZE = 20
+
+interface Entity {
+  ID?: string
+  Name?: string
+  Description?: string
+}
+
+interface EntityResource {
+  name: string
+  // toolset whose config and roles decide whether the resource is offered
+  toolset: Toolset
+  title: string
+  description: string
+  uriTemplate: string
+  read: (variables: Record<string, string>) => Promise<unknown>
+  // every entity to list, as the template variables that address it; unset where listing would fan out too far
+  list?: () => Promise<{ variables: Record<string, string>; entity: Entity }[]>
+  // completion candidates per variable, given what has been typed and the other variables
+  complete: Record<string, (value: string, variables: Record<string, string>) => Promise<Entity[]>>
+}
+
+// A search filter for completions; OrderCloud search matches on words so an empty value lists everything
+const searchFor = (value: string) => (value ? { search: value, searchOn: ["ID", "Name"] as ("ID" | "Name")[] } : {})
+
+function entityResources(client: OrderCloudClient): EntityResource[] {
+  const searchCatalogs = async (value: string) =>
+    (await client.catalogs.listCatalogs({ ...searchFor(value), pageSize: COMPLETION_PAGE_SIZE })).Items
+  const searchBuyers = async (value: string) =>
+    (await client.buyers.listBuyers({ ...searchFor(value), pageSize: COMPLETION_PAGE_SIZE })).Items
+  const searchProducts = async (value: string) =>
+    (await client.products.listProducts({ ...searchFor(value), pageSize: COMPLETION_PAGE_SIZE })).Items
+
+  return [
+    {
+      name: "product",
+      toolset: "products",
+      title: "Product",
+      description: "An OrderCloud product",
+      uriTemplate: "ordercloud://products/{id}",
+      read: ({ id }) => client.products.getProduct(id),
+      list: async () =>
+        (await client.products.listProducts({ pageSize: LIST_PAGE_SIZE })).Items.map((entity) => ({ variables: { id: entity.ID! }, entity })),
+      complete: { id: searchProducts },
+    },
+    {
+      name: "product-variant",
+      toolset: "products",
+      title: "Product Variant",
+      description: "A variant of an OrderCloud product",
+      uriTemplate: "ordercloud://products/{productId}/variants/{id}",
+      read: ({ productId, id }) => client.products.getProductVariant(productId, id),
+      complete: {
+        productId: searchProducts,
+        id: async (value, { productId }) =>
+          productId
+            ? (await client.products.listProductVariants(productId, { ...searchFor(value), pageSize: COMPLETION_PAGE_SIZE })).Items
+            : [],
+      },
+    },
+    {
+      name: "catalog",
+      toolset: "catalogs",
+      title: "Catalog",
+      description: "An OrderCloud catalog",
+      uriTemplate: "ordercloud://catalogs/{id}",
+      read: ({ id }) => client.catalogs.get(id),
+      list: async () =>
+        (await client.catalogs.listCatalogs({ pageSize: LIST_PAGE_SIZE })).Items.map((entity) => ({ variables: { id: entity.ID! }, entity })),
+      complete: { id: searchCatalogs },
+    },
+    {
+      name: "category",
+      toolset: "categories",
+      title: "Category",
+      description: "A category within an OrderCloud catalog",
+      uriTemplate: "ordercloud://catalogs/{catalogId}/categories/{id}",
+      read: ({ catalogId, id }) => client.categories.getCategory(catalogId, id),
+      // categories only exist inside a catalog, so walk the first page of catalogs
+      list: async () => {
+        const catalogs = (await client.catalogs.listCatalogs({ pageSize: COMPLETION_PAGE_SIZE })).Items
+        const perCatalog = await Promise.all(
+          catalogs.map(async (catalog) =>
+            (await client.categories.listCategories(catalog.ID!, { pageSize: LIST_PAGE_SIZE })).Items.map((entity) => ({
+              variables: { catalogId: catalog.ID!, id: entity.ID! },
+              entity,
+            })),
+          ),
+        )
+        return perCatalog.flat()
+      },
+      complete: {
+        catalogId: searchCatalogs,
+        id: async (value, { catalogId }) =>
+          catalogId
+            ? (await client.categories.listCategories(catalogId, { ...searchFor(value), pageSize: COMPLETION_PAGE_SIZE })).Items
+            : [],
+      },
+    },
+    {
+      name: "buyer",
+      toolset: "buyers",
+      title: "Buyer",
+      description: "An OrderCloud buyer organization",
+      uriTemplate: "ordercloud://buyers/{id}",
+      read: ({ id }) => client.buyers.getBuyer(id),
+      list: async () =>
+        (await client.buyers.listBuyers({ pageSize: LIST_PAGE_SIZE })).Items.map((entity) => ({ variables: { id: entity.ID! }, entity })),
+      complete: { id: searchBuyers },
+    },
+    {
+      name: "buyer-address",
+      toolset: "addresses",
+      title: "Buyer Address",
+      description: "An address belonging to an OrderCloud buyer organization",
+      uriTemplate: "ordercloud://buyers/{buyerId}/addresses/{id}",
+      read: ({ buyerId, id }) => client.addresses.getAddress(buyerId, id),
+      complete: {
+        buyerId: searchBuyers,
+        id: async (value, { buyerId }) =>
+          buyerId
+            ? (
+                await client.addresses.listAddresses(buyerId, {
+                  ...(value && { search: value, searchOn: ["ID", "AddressName"] }),
+                  pageSize: COMPLETION_PAGE_SIZE,
+                })
+              ).Items.map((address) => ({ ID: address.ID, Name: address.AddressName }))
+            : [],
+      },
+    },
+    {
+      name: "supplier",
+      toolset: "suppliers",
+      title: "Supplier",
+      description: "An OrderCloud supplier organization",
+      uriTemplate: "ordercloud://suppliers/{id}",
+      read: ({ id }) => client.suppliers.getSupplier(id),
+      list: async () =>
+        (await client.suppliers.listSuppliers({ pageSize: LIST_PAGE_SIZE })).Items.map((entity) => ({ variables: { id: entity.ID! }, entity })),
+      complete: {
+        id: async (value) => (await client.suppliers.listSuppliers({ ...searchFor(value), pageSize: COMPLETION_PAGE_SIZE })).Items,
+      },
+    },
+    {
+      name: "promotion",
+      toolset: "promotions",
+      title: "Promotion",
+      description: "An OrderCloud promotion",
+      uriTemplate: "ordercloud://promotions/{id}",
+      read: ({ id }) => client.promotions.getPromotion(id),
+      list: async () =>
+        (await client.promotions.listPromotions({ pageSize: LIST_PAGE_SIZE })).Items.map((entity) => ({ variables: { id: entity.ID! }, entity })),
+      complete: {
+        id: async (value) => (await client.promotions.listPromotions({ ...searchFor(value), pageSize: COMPLETION_PAGE_SIZE })).Items,
+      },
+    },
+    {
+      name: "price-schedule",
+      toolset: "priceSchedules",
+      title: "Price Schedule",
+      description: "An OrderCloud price schedule with its price breaks",
+      uriTemplate: "ordercloud://priceschedules/{id}",
+      read: ({ id }) => client.priceSchedules.getPriceSchedule(id),
+      list: async () =>
+        (await client.priceSchedules.listPriceSchedules({ pageSize: LIST_PAGE_SIZE })).Items.map((entity) => ({
+          variables: { id: entity.ID! },
+          entity,
+        })),
+      complete: {
+        id: async (value) =>
+          (await client.priceSchedules.listPriceSchedules({ ...searchFor(value), pageSize: COMPLETION_PAGE_SIZE })).Items,
+      },
+    },
+  ]
+}
+
+function expand(uriTemplate: string, variables: Record<string, string>): string {
+  return uriTemplate.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(variables[name]))
+}
+
+// Decoded template variables go into API paths as they are, so refuse any that would step outside their segment
+function pathSegment(name: string, value: string): string {
+  if (/[/\\?#]/.test(value) || value === "." || value === ".." || value === "") {
+    throw new Error(`Invalid ${name} "${value}"`)
+  }
+  return value
+}
+
+/**
+ * Registers OrderCloud entities as MCP resource templates, so clients can
+ * attach products, catalogs, buyers... as context without calling a tool.
+ */
+export function registerEntityResources(server: McpServer, orderCloudClient: OrderCloudClient, options: RegisterToolsOptions = {}) {
+  const { roleFilter = "off", toolsets } = options
+
+  for (const resource of entityResources(orderCloudClient)) {
+    if (toolsets && !isToolsetEnabled(resource.toolset, toolsets)) continue
+
+    const complete = Object.fromEntries(
+      Object.entries(resource.complete).map(([variable, search]) => [
+        variable,
+        async (value: string, context?: { arguments?: Record<string, string> }) => {
+          try {
+            const entities = await search(value, context?.arguments ?? {})
+            return entities.map((entity) => entity.ID!).filter(Boolean)
+          } catch (error) {
+            DebugLogger.log("resource_complete_error", { resource: resource.name, variable, value }, undefined, error as Error)
+            return []
+          }
+        },
+      ]),
+    )
+
+    const list = resource.list
+    const template = new ResourceTemplate(resource.uriTemplate, {
+      list: list && (async () => {
+        try {
+          const entities = await list()
+          return {
+            resources: entities.map(({ variables, entity }) => ({
+              uri: expand(resource.uriTemplate, variables),
+              name: entity.Name ?? entity.ID ?? resource.name,
+              title: `${resource.title}: ${entity.Name ?? entity.ID}`,
+              description: entity.Description,
+              mimeType: "application/json",
+            })),
+          }
+        } catch (error) {
+          DebugLogger.log("resource_list_error", { resource: resource.name }, undefined, error as Error)
+          return { resources: [] }
+        }
+      }),
+      complete,
+    })
+
+    const register = () => server.registerResource(
+      resource.name,
+      template,
+      { title: resource.title, description: resource.description, mimeType: "application/json" },
+      async (uri, variables) => {
+        const values = Object.fromEntries(
+          Object.entries(variables).map(([name, value]) => [
+            name,
+            pathSegment(name, decodeURIComponent(Array.isArray(value) ? value[0] : value)),
+          ]),
+        )
+        const entity = await resource.read(values)
+        return {
+          contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(entity, null, 2) }],
+        }
+      },
+    )
+    let registered = register()
+
+    if (roleFilter !== "off") {
+      // like the tools: hidden ("skip") or marked ("flag") while the token can't read the toolset, again after every sign-in
+      let granted = true
+      const applyRoles = () => {
+        const nowGranted = canReadToolset(resource.toolset, grantedRoles(orderCloudClient))
+        if (nowGranted === granted) return
+        granted = nowGranted
+
+        if (roleFilter === "skip") {
+          // the SDK ignores `enabled` on templates when listing and reading them, so take the template out entirely
+          if (granted) registered = register()
+          else registered.remove()
+        } else {
+          registered.update({
+            metadata: {
+              title: resource.title,
+              mimeType: "application/json",
+              description: granted ? resource.description : `[Not readable with the current token's roles] ${resource.description}`,
+            },
+          })
+        }
+      }
+      applyRoles()
+      orderCloudClient.onSignIn(applyRoles)
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import OrderCloudClient from "../tools/ordercloud-client.js"
+import type { RegisterToolsOptions } from "../tools/index.js"
+import { registerEntityResources } from "./entity-resources.js"
+
+// Resources follow the same toolset and role settings as the tools that read the same entities
+export function registerAllResources(server: McpServer, orderCloudClient: OrderCloudClient, options: RegisterToolsOptions = {}) {
+  registerEntityResources(server, orderCloudClient, options)
+}
@@ -0,0 +1,16 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import OrderCloudClient from "./tools/ordercloud-client.js"
+import { registerAllTools, type RegisterToolsOptions } from "./tools/index.js"
+import { registerAllResources } from "./resources/index.js"
+import { registerAllPrompts } from "./prompts/index.js"
+
+// One MCP server per connection; HTTP transports create one for every session
+export function createServer(orderCloudClient: OrderCloudClient, options: RegisterToolsOptions = {}): McpServer {
+  const server = new McpServer({ name: "OrderCloud Server", version: "1.0.0" })
+
+  registerAllTools(server, orderCloudClient, options)
+  registerAllResources(server, orderCloudClient, options)
+  registerAllPrompts(server, orderCloudClient)
+
+  return server
+}
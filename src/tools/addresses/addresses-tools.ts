@@ -1,6 +1,8 @@
 import { z } from "zod"
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import OrderCloudClient from "../ordercloud-client.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
 
 export function registerAddressTools(server: McpServer, orderCloudClient: OrderCloudClient) {
 
@@ -40,13 +42,19 @@ server.registerTool(
           ])
         )
         .optional(),
-      filters: z.record(z.any()).optional(),
+      ...filterInputs,
+      ...pagingInputs,
     },
   },
-  async (input) => {
+  async ({ allPages, maxItems, ...input }) => {
     try {
       const { buyerId, ...options } = input
-      const result = await orderCloudClient.addresses.listAddresses(buyerId, options)
+      const result = allPages
+        ? await orderCloudClient.addresses.listAll(
+            (page) => orderCloudClient.addresses.listAddresses(buyerId, { ...options, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.addresses.listAddresses(buyerId, options)
       return {
         content: [
           {
@@ -56,17 +64,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error listing addresses: ${
-              error instanceof Error ? error.message : String(error)
-            }`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error listing addresses", error)
     }
   }
 )
@@ -94,15 +92,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting address: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error getting address", error)
     }
   },
 )
@@ -160,15 +150,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error creating address: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error creating address", error)
     }
   },
 )
@@ -228,15 +210,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error updating address: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error updating address", error)
     }
   },
 )
@@ -295,15 +269,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error patching address: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error patching address", error)
     }
   },
 )
@@ -331,15 +297,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error deleting address: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error deleting address", error)
     }
   },
 )
@@ -370,13 +328,19 @@ server.registerTool(
           ])
         )
         .optional(),
-      filters: z.record(z.any()).optional(),
+      ...filterInputs,
+      ...pagingInputs,
     },
   },
-  async (input) => {
+  async ({ allPages, maxItems, ...input }) => {
     try {
       const { buyerId, ...options } = input
-      const result = await orderCloudClient.addresses.listAddressAssignments(buyerId, options)
+      const result = allPages
+        ? await orderCloudClient.addresses.listAll(
+            (page) => orderCloudClient.addresses.listAddressAssignments(buyerId, { ...options, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.addresses.listAddressAssignments(buyerId, options)
       return {
         content: [
           {
@@ -386,17 +350,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error listing address assignments: ${
-              error instanceof Error ? error.message : String(error)
-            }`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error listing address assignments", error)
     }
   }
 )
@@ -436,15 +390,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error saving address assignment: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error saving address assignment", error)
     }
   },
 )
@@ -472,15 +418,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error deleting address assignment: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error deleting address assignment", error)
     }
   },
 )
@@ -0,0 +1,211 @@
+import { z } from "zod"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import OrderCloudClient from "../ordercloud-client.js"
+import { toUser, userInputs } from "../users/users-tools.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
+import type { User } from "../../types/types.js"
+
+export function registerAdminUserTools(server: McpServer, orderCloudClient: OrderCloudClient) {
+
+// Tool: List Admin Users
+server.registerTool(
+  "list_admin_users",
+  {
+    title: "List Admin Users",
+    description: "Retrieve the marketplace owner's admin users with filtering, searching and sorting",
+    inputSchema: {
+      page: z.number().optional().default(1),
+      pageSize: z.number().optional().default(20),
+      search: z.string().optional(),
+      searchOn: z
+        .array(z.enum(["ID", "Username", "FirstName", "LastName", "Email"]))
+        .optional(),
+      sortBy: z
+        .array(
+          z.enum([
+            "ID",
+            "Username",
+            "FirstName",
+            "LastName",
+            "Email",
+            "DateCreated",
+            "!ID",
+            "!Username",
+            "!FirstName",
+            "!LastName",
+            "!Email",
+            "!DateCreated"
+          ])
+        )
+        .optional(),
+      ...filterInputs,
+      ...pagingInputs,
+    },
+  },
+  async ({ allPages, maxItems, ...input }) => {
+    try {
+      const result = allPages
+        ? await orderCloudClient.adminUsers.listAll(
+            (page) => orderCloudClient.adminUsers.listAdminUsers({ ...input, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.adminUsers.listAdminUsers(input)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error listing admin users", error)
+    }
+  }
+)
+
+// Tool: Get Admin User by ID
+server.registerTool(
+  "get_admin_user",
+  {
+    title: "Get Admin User",
+    description: "Retrieve a specific admin user of the marketplace owner",
+    inputSchema: {
+      userId: z.string(),
+    },
+  },
+  async ({ userId }) => {
+    try {
+      const result = await orderCloudClient.adminUsers.getAdminUser(userId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error getting admin user", error)
+    }
+  },
+)
+
+// Tool: Create Admin User
+server.registerTool(
+  "create_admin_user",
+  {
+    title: "Create Admin User",
+    description: "Create a new admin user for the marketplace owner",
+    inputSchema: {
+      id: z.string().optional(),
+      ...userInputs,
+      username: z.string(),
+      password: z.string().optional(),
+      active: z.boolean().optional().default(true),
+    },
+  },
+  async ({ id, password, ...input }) => {
+    try {
+      const user = { ...(id && { ID: id }), ...toUser(input), ...(password && { Password: password }) } as User
+      const result = await orderCloudClient.adminUsers.createAdminUser(user)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error creating admin user", error)
+    }
+  },
+)
+
+// Tool: Update Admin User (Full Update)
+server.registerTool(
+  "update_admin_user",
+  {
+    title: "Update Admin User",
+    description: "Update an existing admin user in OrderCloud (full update - PUT); fields left out are cleared",
+    inputSchema: {
+      userId: z.string(),
+      ...userInputs,
+      username: z.string(),
+    },
+  },
+  async ({ userId, ...input }) => {
+    try {
+      const user = { ID: userId, ...toUser(input) } as User
+      const result = await orderCloudClient.adminUsers.updateAdminUser(userId, user)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error updating admin user", error)
+    }
+  },
+)
+
+// Tool: Patch Admin User (Partial Update)
+server.registerTool(
+  "patch_admin_user",
+  {
+    title: "Patch Admin User",
+    description: "Partially update an existing admin user in OrderCloud (PATCH), e.g. set active false to stop them signing in",
+    inputSchema: {
+      userId: z.string(),
+      ...userInputs,
+    },
+  },
+  async ({ userId, ...input }) => {
+    try {
+      const result = await orderCloudClient.adminUsers.patchAdminUser(userId, toUser(input))
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error patching admin user", error)
+    }
+  },
+)
+
+// Tool: Delete Admin User
+server.registerTool(
+  "delete_admin_user",
+  {
+    title: "Delete Admin User",
+    description: "Delete an admin user of the marketplace owner",
+    inputSchema: {
+      userId: z.string(),
+    },
+  },
+  async ({ userId }) => {
+    try {
+      await orderCloudClient.adminUsers.deleteAdminUser(userId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Admin user ${userId} deleted successfully`,
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error deleting admin user", error)
+    }
+  },
+)
+}
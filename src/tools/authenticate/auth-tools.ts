@@ -1,6 +1,8 @@
 import { z } from "zod"
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import OrderCloudClient from "../ordercloud-client.js"
+import { claimDate, decodeAccessToken, getTokenRoles } from "../utils/jwt.js"
+import { toolError } from "../utils/tool-error.js"
 
 
 export function registerAuthTools(server: McpServer, orderCloudClient: OrderCloudClient) {
@@ -8,35 +10,74 @@ export function registerAuthTools(server: McpServer, orderCloudClient: OrderClou
     "authenticate",
     {
       title: "Authenticate with Sitecore OrderCloud",
-      description: "Authenticate with OrderCloud using username, client ID, and password",
+      description:
+        "Authenticate with OrderCloud using the password, client_credentials or refresh_token grant. Omitted fields fall back to the server's configured credentials.",
       inputSchema: {
-        username: z.string().describe("OrderCloud username"),
-        clientId: z.string().describe("OrderCloud client ID"),
-        password: z.string().describe("OrderCloud password"),
+        grantType: z
+          .enum(["password", "client_credentials", "refresh_token"])
+          .optional()
+          .describe("OAuth2 grant to use; inferred from the supplied fields when omitted"),
+        clientId: z.string().optional().describe("OrderCloud client ID"),
+        username: z.string().optional().describe("OrderCloud username (password grant)"),
+        password: z.string().optional().describe("OrderCloud password (password grant)"),
+        clientSecret: z.string().optional().describe("API client secret (client_credentials grant)"),
+        refreshToken: z.string().optional().describe("Refresh token (refresh_token grant)"),
+        scope: z.string().optional().describe("Space-separated roles to request, e.g. FullAccess"),
       },
     },
-    async ({ username, clientId, password }) => {
+    async (input) => {
       try {
         console.log("Authenticating with OrderCloud...")
-        // ✅ use the auth sub-client
-        await orderCloudClient.auth.authenticate(username, clientId, password)
-        return {
-          content: [
-            { type: "text", text: "Successfully authenticated with Sitecore OrderCloud" },
-          ],
-        }
-      } catch (error) {
+        await orderCloudClient.authenticate(input)
         return {
           content: [
             {
               type: "text",
-              text: `Authentication failed: ${
-                error instanceof Error ? error.message : "Unknown error"
-              }`,
+              text: `Successfully authenticated with Sitecore OrderCloud (${orderCloudClient.getGrantType()} grant)`,
             },
           ],
-          isError: true,
         }
+      } catch (error) {
+        return toolError("Authentication failed", error)
+      }
+    }
+  )
+
+  server.registerTool(
+    "whoami",
+    {
+      title: "Who Am I",
+      description: "Decode the current OrderCloud access token: user, client ID, roles, issue/expiry times and API URL",
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        const token = orderCloudClient.getAccessToken()
+        if (!token) {
+          throw new Error("Not authenticated. Please call authenticate first.")
+        }
+
+        const claims = decodeAccessToken(token)
+        const expiresAt = claimDate(claims.exp)
+        const whoami = {
+          username: claims.usr ?? null,
+          userId: claims.u ?? null,
+          userType: claims.usrtype ?? null,
+          clientId: claims.cid ?? null,
+          roles: getTokenRoles(claims),
+          issuedAt: claimDate(claims.iat ?? claims.nbf),
+          expiresAt,
+          expired: expiresAt !== null && new Date(expiresAt) <= new Date(),
+          apiUrl: orderCloudClient.getBaseURL() ?? null,
+          grantType: orderCloudClient.getGrantType(),
+          impersonation: orderCloudClient.getImpersonation(),
+        }
+
+        return {
+          content: [{ type: "text", text: JSON.stringify(whoami, null, 2) }],
+        }
+      } catch (error) {
+        return toolError("Error decoding access token", error)
       }
     }
   )
@@ -1,6 +1,8 @@
 import { z } from "zod"
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import OrderCloudClient from "../ordercloud-client.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
 
 export function registerBuyerTools(server: McpServer, orderCloudClient: OrderCloudClient) {
 
@@ -27,12 +29,18 @@ server.registerTool(
           ])
         )
         .optional(),
-      filters: z.record(z.any()).optional(),
+      ...filterInputs,
+      ...pagingInputs,
     },
   },
-  async (input) => {
+  async ({ allPages, maxItems, ...input }) => {
     try {
-      const result = await orderCloudClient.buyers.listBuyers(input)
+      const result = allPages
+        ? await orderCloudClient.buyers.listAll(
+            (page) => orderCloudClient.buyers.listBuyers({ ...input, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.buyers.listBuyers(input)
       return {
         content: [
           {
@@ -42,17 +50,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error listing buyers: ${
-              error instanceof Error ? error.message : String(error)
-            }`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error listing buyers", error)
     }
   }
 )
@@ -79,15 +77,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting buyer: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error getting buyer", error)
     }
   },
 )
@@ -125,15 +115,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error creating buyer: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error creating buyer", error)
     }
   },
 )
@@ -174,15 +156,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error updating buyer: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error updating buyer", error)
     }
   },
 )
@@ -222,15 +196,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error patching buyer: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error patching buyer", error)
     }
   },
 )
@@ -257,15 +223,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error deleting buyer: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error deleting buyer", error)
     }
   },
 )
@@ -294,13 +252,19 @@ server.registerTool(
           ])
         )
         .optional(),
-      filters: z.record(z.any()).optional(),
+      ...filterInputs,
+      ...pagingInputs,
     },
   },
-  async (input) => {
+  async ({ allPages, maxItems, ...input }) => {
     try {
       const { buyerId, ...options } = input
-      const result = await orderCloudClient.buyers.listBuyerSellers(buyerId, options)
+      const result = allPages
+        ? await orderCloudClient.buyers.listAll(
+            (page) => orderCloudClient.buyers.listBuyerSellers(buyerId, { ...options, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.buyers.listBuyerSellers(buyerId, options)
       return {
         content: [
           {
@@ -310,17 +274,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error listing buyer sellers: ${
-              error instanceof Error ? error.message : String(error)
-            }`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error listing buyer sellers", error)
     }
   }
 )
@@ -1,6 +1,8 @@
 import { z } from "zod"
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import OrderCloudClient from "../ordercloud-client.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
 
 export function registerCatalogTools(server: McpServer, orderCloudClient: OrderCloudClient) {
 
@@ -27,12 +29,18 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
             ])
           )
           .optional(),
-        filters: z.record(z.any()).optional(),
+        ...filterInputs,
+        ...pagingInputs,
       },
     },
-    async (input) => {
+    async ({ allPages, maxItems, ...input }) => {
       try {
-        const result = await orderCloudClient.catalogs.listCatalogs(input)
+        const result = allPages
+          ? await orderCloudClient.catalogs.listAll(
+              (page) => orderCloudClient.catalogs.listCatalogs({ ...input, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.catalogs.listCatalogs(input)
         return {
           content: [
             {
@@ -42,17 +50,7 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
           ],
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing catalogs: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
-            },
-          ],
-          isError: true,
-        }
+        return toolError("Error listing catalogs", error)
       }
     }
   )
@@ -76,12 +74,7 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
           ],
         }
       } catch (error) {
-        return {
-          content: [
-            { type: "text", text: `Error getting catalog: ${error instanceof Error ? error.message : String(error)}` },
-          ],
-          isError: true,
-        }
+        return toolError("Error getting catalog", error)
       }
     },
   )
@@ -116,12 +109,7 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
           ],
         }
       } catch (error) {
-        return {
-          content: [
-            { type: "text", text: `Error creating catalog: ${error instanceof Error ? error.message : String(error)}` },
-          ],
-          isError: true,
-        }
+        return toolError("Error creating catalog", error)
       }
     },
   )
@@ -159,24 +147,7 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
           ],
         }
       } catch (error) {
-        // Enhanced error message with API response details
-        let errorMessage = `Error updating catalog: ${error instanceof Error ? error.message : String(error)}`
-        
-        if ((error as any)?.response?.data) {
-          const responseData = (error as any).response.data
-          if (typeof responseData === 'object') {
-            errorMessage += `\n\nAPI Response Details:\n${JSON.stringify(responseData, null, 2)}`
-          } else {
-            errorMessage += `\n\nAPI Response: ${responseData}`
-          }
-        }
-        
-        return {
-          content: [
-            { type: "text", text: errorMessage },
-          ],
-          isError: true,
-        }
+        return toolError("Error updating catalog", error)
       }
     },
   )
@@ -214,24 +185,7 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
           ],
         }
       } catch (error) {
-        // Enhanced error message with API response details
-        let errorMessage = `Error patching catalog: ${error instanceof Error ? error.message : String(error)}`
-        
-        if ((error as any)?.response?.data) {
-          const responseData = (error as any).response.data
-          if (typeof responseData === 'object') {
-            errorMessage += `\n\nAPI Response Details:\n${JSON.stringify(responseData, null, 2)}`
-          } else {
-            errorMessage += `\n\nAPI Response: ${responseData}`
-          }
-        }
-        
-        return {
-          content: [
-            { type: "text", text: errorMessage },
-          ],
-          isError: true,
-        }
+        return toolError("Error patching catalog", error)
       }
     },
   )
@@ -255,12 +209,7 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
           ],
         }
       } catch (error) {
-        return {
-          content: [
-            { type: "text", text: `Error deleting catalog: ${error instanceof Error ? error.message : String(error)}` },
-          ],
-          isError: true,
-        }
+        return toolError("Error deleting catalog", error)
       }
     },
   )
@@ -292,12 +241,18 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
             ])
           )
           .optional(),
-        filters: z.record(z.any()).optional(),
+        ...filterInputs,
+        ...pagingInputs,
       },
     },
-    async (input) => {
+    async ({ allPages, maxItems, ...input }) => {
       try {
-        const result = await orderCloudClient.catalogs.listCatalogAssignments(input)
+        const result = allPages
+          ? await orderCloudClient.catalogs.listAll(
+              (page) => orderCloudClient.catalogs.listCatalogAssignments({ ...input, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.catalogs.listCatalogAssignments(input)
         return {
           content: [
             {
@@ -307,17 +262,7 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
           ],
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing catalog assignments: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
-            },
-          ],
-          isError: true,
-        }
+        return toolError("Error listing catalog assignments", error)
       }
     }
   )
@@ -348,10 +293,7 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error saving catalog assignment: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error saving catalog assignment", error)
       }
     },
   )
@@ -373,10 +315,7 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
           content: [{ type: "text", text: `Catalog assignment ${catalogId} deleted successfully` }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error deleting catalog assignment: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error deleting catalog assignment", error)
       }
     },
   )
@@ -404,12 +343,18 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
             ])
           )
           .optional(),
-        filters: z.record(z.any()).optional(),
+        ...filterInputs,
+        ...pagingInputs,
       },
     },
-    async (input) => {
+    async ({ allPages, maxItems, ...input }) => {
       try {
-        const result = await orderCloudClient.catalogs.listCatalogBundleAssignments(input)
+        const result = allPages
+          ? await orderCloudClient.catalogs.listAll(
+              (page) => orderCloudClient.catalogs.listCatalogBundleAssignments({ ...input, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.catalogs.listCatalogBundleAssignments(input)
         return {
           content: [
             {
@@ -419,17 +364,7 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
           ],
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing catalog bundle assignments: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
-            },
-          ],
-          isError: true,
-        }
+        return toolError("Error listing catalog bundle assignments", error)
       }
     }
   )
@@ -456,10 +391,7 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error saving catalog bundle assignment: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error saving catalog bundle assignment", error)
       }
     },
   )
@@ -482,10 +414,7 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
           content: [{ type: "text", text: `Catalog bundle assignment ${catalogId}/${bundleId} deleted successfully` }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error deleting catalog bundle assignment: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error deleting catalog bundle assignment", error)
       }
     },
   )
@@ -513,12 +442,18 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
             ])
           )
           .optional(),
-        filters: z.record(z.any()).optional(),
+        ...filterInputs,
+        ...pagingInputs,
       },
     },
-    async (input) => {
+    async ({ allPages, maxItems, ...input }) => {
       try {
-        const result = await orderCloudClient.catalogs.listCatalogProductAssignments(input)
+        const result = allPages
+          ? await orderCloudClient.catalogs.listAll(
+              (page) => orderCloudClient.catalogs.listCatalogProductAssignments({ ...input, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.catalogs.listCatalogProductAssignments(input)
         return {
           content: [
             {
@@ -528,17 +463,7 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
           ],
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing catalog product assignments: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
-            },
-          ],
-          isError: true,
-        }
+        return toolError("Error listing catalog product assignments", error)
       }
     }
   )
@@ -565,10 +490,7 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error saving catalog product assignment: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error saving catalog product assignment", error)
       }
     },
   )
@@ -591,10 +513,7 @@ export function registerCatalogTools(server: McpServer, orderCloudClient: OrderC
           content: [{ type: "text", text: `Catalog product assignment ${catalogId}/${productId} deleted successfully` }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error deleting catalog product assignment: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error deleting catalog product assignment", error)
       }
     },
   )
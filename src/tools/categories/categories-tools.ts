@@ -1,6 +1,8 @@
 import { z } from "zod"
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import OrderCloudClient from "../ordercloud-client.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
 
 export function registerCategoryTools(server: McpServer, orderCloudClient: OrderCloudClient) {
 
@@ -28,13 +30,19 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
             ])
           )
           .optional(),
-        filters: z.record(z.any()).optional(),
+        ...filterInputs,
+        ...pagingInputs,
       },
     },
-    async (input) => {
+    async ({ allPages, maxItems, ...input }) => {
       try {
         const { catalogId, ...options } = input
-        const result = await orderCloudClient.categories.listCategories(catalogId, options)
+        const result = allPages
+          ? await orderCloudClient.categories.listAll(
+              (page) => orderCloudClient.categories.listCategories(catalogId, { ...options, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.categories.listCategories(catalogId, options)
         return {
           content: [
             {
@@ -44,17 +52,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           ],
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing categories: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
-            },
-          ],
-          isError: true,
-        }
+        return toolError("Error listing categories", error)
       }
     }
   )
@@ -78,10 +76,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error getting categories: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error getting categories", error)
       }
     },
   )
@@ -104,10 +99,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error getting category: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error getting category", error)
       }
     },
   )
@@ -147,10 +139,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error creating category: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error creating category", error)
       }
     },
   )
@@ -192,10 +181,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error updating category: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error updating category", error)
       }
     },
   )
@@ -237,10 +223,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error patching category: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error patching category", error)
       }
     },
   )
@@ -263,10 +246,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           content: [{ type: "text", text: `Category ${categoryId} deleted successfully from catalog ${catalogId}` }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error deleting category: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error deleting category", error)
       }
     },
   )
@@ -299,13 +279,19 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
             ])
           )
           .optional(),
-        filters: z.record(z.any()).optional(),
+        ...filterInputs,
+        ...pagingInputs,
       },
     },
-    async (input) => {
+    async ({ allPages, maxItems, ...input }) => {
       try {
         const { catalogId, ...options } = input
-        const result = await orderCloudClient.categories.listCategoryAssignments(catalogId, options)
+        const result = allPages
+          ? await orderCloudClient.categories.listAll(
+              (page) => orderCloudClient.categories.listCategoryAssignments(catalogId, { ...options, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.categories.listCategoryAssignments(catalogId, options)
         return {
           content: [
             {
@@ -315,17 +301,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           ],
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing category assignments: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
-            },
-          ],
-          isError: true,
-        }
+        return toolError("Error listing category assignments", error)
       }
     }
   )
@@ -358,10 +334,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error saving category assignment: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error saving category assignment", error)
       }
     },
   )
@@ -384,10 +357,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           content: [{ type: "text", text: `Category assignment ${categoryId} deleted successfully from catalog ${catalogId}` }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error deleting category assignment: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error deleting category assignment", error)
       }
     },
   )
@@ -416,13 +386,19 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
             ])
           )
           .optional(),
-        filters: z.record(z.any()).optional(),
+        ...filterInputs,
+        ...pagingInputs,
       },
     },
-    async (input) => {
+    async ({ allPages, maxItems, ...input }) => {
       try {
         const { catalogId, ...options } = input
-        const result = await orderCloudClient.categories.listCategoryBundleAssignments(catalogId, options)
+        const result = allPages
+          ? await orderCloudClient.categories.listAll(
+              (page) => orderCloudClient.categories.listCategoryBundleAssignments(catalogId, { ...options, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.categories.listCategoryBundleAssignments(catalogId, options)
         return {
           content: [
             {
@@ -432,17 +408,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           ],
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing category bundle assignments: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
-            },
-          ],
-          isError: true,
-        }
+        return toolError("Error listing category bundle assignments", error)
       }
     }
   )
@@ -470,10 +436,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error saving category bundle assignment: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error saving category bundle assignment", error)
       }
     },
   )
@@ -497,10 +460,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           content: [{ type: "text", text: `Category bundle assignment ${categoryId}/${bundleId} deleted successfully from catalog ${catalogId}` }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error deleting category bundle assignment: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error deleting category bundle assignment", error)
       }
     },
   )
@@ -529,13 +489,19 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
             ])
           )
           .optional(),
-        filters: z.record(z.any()).optional(),
+        ...filterInputs,
+        ...pagingInputs,
       },
     },
-    async (input) => {
+    async ({ allPages, maxItems, ...input }) => {
       try {
         const { catalogId, ...options } = input
-        const result = await orderCloudClient.categories.listCategoryProductAssignments(catalogId, options)
+        const result = allPages
+          ? await orderCloudClient.categories.listAll(
+              (page) => orderCloudClient.categories.listCategoryProductAssignments(catalogId, { ...options, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.categories.listCategoryProductAssignments(catalogId, options)
         return {
           content: [
             {
@@ -545,17 +511,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           ],
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing category product assignments: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
-            },
-          ],
-          isError: true,
-        }
+        return toolError("Error listing category product assignments", error)
       }
     }
   )
@@ -583,10 +539,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error saving category product assignment: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error saving category product assignment", error)
       }
     },
   )
@@ -610,10 +563,7 @@ export function registerCategoryTools(server: McpServer, orderCloudClient: Order
           content: [{ type: "text", text: `Category product assignment ${categoryId}/${productId} deleted successfully from catalog ${catalogId}` }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error deleting category product assignment: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error deleting category product assignment", error)
       }
     },
   )
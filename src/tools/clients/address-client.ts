@@ -1,6 +1,7 @@
 import { BaseClient } from "./base-client.js"
 import type { Address, AddressAssignment, ListResponse } from "../../types/types.js"
 import { DebugLogger } from "../utils/debug.js"
+import { QueryBuilder, type FilterCondition } from "../utils/query-builder.js"
 
 export class AddressClient extends BaseClient {
   
@@ -12,41 +13,15 @@ export class AddressClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<Address>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listAddresses_start", { buyerId, options })
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-      DebugLogger.log("listAddresses_param", { search: options.search })
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-      DebugLogger.log("listAddresses_param", { searchOn: params.searchOn })
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-      DebugLogger.log("listAddresses_param", { sortBy: params.sortBy })
-    }
-    if (options?.page) {
-      params.page = options.page
-      DebugLogger.log("listAddresses_param", { page: options.page })
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-      DebugLogger.log("listAddresses_param", { pageSize: options.pageSize })
-    }
-
-    // filters are just key/value pairs
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-      DebugLogger.log("listAddresses_param", { filters: options.filters })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     DebugLogger.log("listAddresses_final_params", params)
 
@@ -157,41 +132,15 @@ export class AddressClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<AddressAssignment>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listAddressAssignments_start", { buyerId, options })
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-      DebugLogger.log("listAddressAssignments_param", { search: options.search })
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-      DebugLogger.log("listAddressAssignments_param", { searchOn: params.searchOn })
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-      DebugLogger.log("listAddressAssignments_param", { sortBy: params.sortBy })
-    }
-    if (options?.page) {
-      params.page = options.page
-      DebugLogger.log("listAddressAssignments_param", { page: options.page })
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-      DebugLogger.log("listAddressAssignments_param", { pageSize: options.pageSize })
-    }
-
-    // filters are just key/value pairs
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-      DebugLogger.log("listAddressAssignments_param", { filters: options.filters })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     DebugLogger.log("listAddressAssignments_final_params", params)
 
@@ -0,0 +1,117 @@
+import { BaseClient } from "./base-client.js"
+import type { ListResponse, User } from "../../types/types.js"
+import { DebugLogger } from "../utils/debug.js"
+import { QueryBuilder, type FilterCondition } from "../utils/query-builder.js"
+
+export class AdminUserClient extends BaseClient {
+
+  // List marketplace owner admin users with advanced filtering, searching, and sorting
+  async listAdminUsers(options?: {
+    search?: string
+    searchOn?: ("ID" | "Username" | "FirstName" | "LastName" | "Email")[]
+    sortBy?: ("ID" | "Username" | "FirstName" | "LastName" | "Email" | "DateCreated" | "!ID" | "!Username" | "!FirstName" | "!LastName" | "!Email" | "!DateCreated")[]
+    page?: number
+    pageSize?: number
+    filters?: Record<string, any>
+    conditions?: FilterCondition[]
+  }): Promise<ListResponse<User>> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("listAdminUsers_start", options)
+
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
+
+    DebugLogger.log("listAdminUsers_final_params", params)
+
+    try {
+      const response = await this.client.get<ListResponse<User>>("v1/adminusers", { params })
+      DebugLogger.log("listAdminUsers_success", options, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("listAdminUsers_error", options, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Get a specific admin user by ID
+  async getAdminUser(userId: string): Promise<User> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("getAdminUser", { userId })
+
+    try {
+      const response = await this.client.get<User>(`v1/adminusers/${userId}`)
+      DebugLogger.log("getAdminUser_success", { userId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("getAdminUser_error", { userId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Create a new admin user
+  async createAdminUser(user: User): Promise<User> {
+    this.ensureAuthenticated()
+
+    // never log the password
+    DebugLogger.log("createAdminUser", { user: { ...user, Password: undefined } })
+
+    try {
+      const response = await this.client.post<User>("v1/adminusers", user)
+      DebugLogger.log("createAdminUser_success", { userId: user.ID }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("createAdminUser_error", { userId: user.ID }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Update an existing admin user (PUT - full update)
+  async updateAdminUser(userId: string, user: User): Promise<User> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("updateAdminUser", { userId, user: { ...user, Password: undefined } })
+
+    try {
+      const response = await this.client.put<User>(`v1/adminusers/${userId}`, user)
+      DebugLogger.log("updateAdminUser_success", { userId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("updateAdminUser_error", { userId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Partially update an admin user (PATCH - partial update)
+  async patchAdminUser(userId: string, user: Partial<User>): Promise<User> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("patchAdminUser", { userId, user: { ...user, Password: undefined } })
+
+    try {
+      const response = await this.client.patch<User>(`v1/adminusers/${userId}`, user)
+      DebugLogger.log("patchAdminUser_success", { userId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("patchAdminUser_error", { userId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Delete an admin user
+  async deleteAdminUser(userId: string): Promise<void> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("deleteAdminUser", { userId })
+
+    try {
+      await this.client.delete(`v1/adminusers/${userId}`)
+      DebugLogger.log("deleteAdminUser_success", { userId })
+    } catch (error) {
+      DebugLogger.log("deleteAdminUser_error", { userId }, undefined, error as Error)
+      throw error
+    }
+  }
+}
@@ -1,19 +1,91 @@
 import { BaseClient } from "./base-client.js"
+import type { AuthRequest, AuthResponse, GrantType, OrderCloudCredentials } from "../../types/types.js"
+
+// Pick a grant from whichever credentials were supplied when none is named explicitly
+export function inferGrantType(credentials: Partial<OrderCloudCredentials>): GrantType {
+  if (credentials.username || credentials.password) return "password"
+  if (credentials.refreshToken) return "refresh_token"
+  if (credentials.clientSecret) return "client_credentials"
+  return "password"
+}
+
+// Names of the fields a grant needs that are missing from the credentials
+export function missingCredentials(credentials: OrderCloudCredentials): string[] {
+  const missing: string[] = []
+  if (!credentials.clientId) missing.push("clientId")
+
+  switch (credentials.grantType) {
+    case "password":
+      if (!credentials.username) missing.push("username")
+      if (!credentials.password) missing.push("password")
+      break
+    case "client_credentials":
+      if (!credentials.clientSecret) missing.push("clientSecret")
+      break
+    case "refresh_token":
+      if (!credentials.refreshToken) missing.push("refreshToken")
+      break
+  }
+
+  return missing
+}
+
+// Token endpoint form body, leaving out the fields the grant doesn't use
+function toForm(request: AuthRequest): URLSearchParams {
+  const form = new URLSearchParams()
+  for (const [field, value] of Object.entries(request)) {
+    if (value !== undefined) form.set(field, value)
+  }
+  return form
+}
+
+export interface TokenRequestOptions {
+  // renewing the current session's token, as opposed to signing in with credentials the caller chose
+  renewal?: boolean
+}
+
 export class AuthClient extends BaseClient {
-  async authenticate(username: string, clientId: string, password: string, scope = "FullAccess") {
-    const authData = new URLSearchParams({
-      client_id: clientId,
-      grant_type: "password",
-      username,
-      password,
-      scope,
-    })
+  async authenticate(username: string, clientId: string, password: string, scope = "FullAccess"): Promise<AuthResponse> {
+    return this.requestToken({ grantType: "password", clientId, username, password, scope })
+  }
+
+  async authenticateClientCredentials(clientId: string, clientSecret: string, scope = "FullAccess"): Promise<AuthResponse> {
+    return this.requestToken({ grantType: "client_credentials", clientId, clientSecret, scope })
+  }
+
+  async refresh(clientId: string, refreshToken: string, clientSecret?: string, options: TokenRequestOptions = {}): Promise<AuthResponse> {
+    return this.requestToken({ grantType: "refresh_token", clientId, refreshToken, clientSecret }, options)
+  }
+
+  async requestToken(credentials: OrderCloudCredentials, options: TokenRequestOptions = {}): Promise<AuthResponse> {
+    const missing = missingCredentials(credentials)
+    if (missing.length > 0) {
+      throw new Error(`Missing ${missing.join(", ")} for the ${credentials.grantType} grant`)
+    }
+
+    const request: AuthRequest = {
+      client_id: credentials.clientId,
+      grant_type: credentials.grantType,
+    }
+    if (credentials.clientSecret) request.client_secret = credentials.clientSecret
+    if (credentials.grantType === "password") {
+      request.username = credentials.username
+      request.password = credentials.password
+    }
+    if (credentials.grantType === "refresh_token") {
+      request.refresh_token = credentials.refreshToken
+    } else {
+      request.scope = credentials.scope || "FullAccess"
+    }
 
-    const response = await this.client.post("/oauth/token", authData.toString(), {
+    const response = await this.client.post<AuthResponse>("/oauth/token", toForm(request).toString(), {
       headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      // signing in again has no side effects, so it can be retried like a GET; a refresh token may be
+      // single-use, so a refresh whose response was lost must not be sent twice
+      idempotent: credentials.grantType !== "refresh_token",
     })
 
-    this.setAccessToken(response.data.access_token)
+    this.setAccessToken(response.data.access_token, response.data.expires_in)
     return response.data
   }
 }
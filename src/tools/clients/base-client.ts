@@ -1,22 +1,202 @@
-import axios, { type AxiosInstance } from "axios"
+import axios, { getAdapter, type AxiosAdapter, type AxiosInstance, type InternalAxiosRequestConfig } from "axios"
+import { DebugLogger } from "../utils/debug.js"
+import { diffRequest, isDryRun, outsideDryRun, recordRequest, type PlannedRequest } from "../utils/dry-run.js"
+import { RequestLimiter } from "../utils/request-limiter.js"
+import type { CacheOptions, ResponseCache } from "../utils/response-cache.js"
+import { OrderCloudError } from "./ordercloud-error.js"
+import { DEFAULT_RETRY_OPTIONS, isRetryable, retryDelay, sleep, type RetryOptions } from "../utils/retry.js"
+import type { ListAllResponse, ListResponse } from "../../types/types.js"
+
+// Renew tokens a little before OrderCloud actually expires them; short-lived ones at half their lifetime
+const TOKEN_EXPIRY_MARGIN_SECONDS = 300
+
+// Largest page OrderCloud serves, and how many items a fetch-all stops at unless told otherwise
+export const MAX_PAGE_SIZE = 100
+export const DEFAULT_MAX_LIST_ITEMS = 5000
+
+// How long a single request may take before it is abandoned
+export const DEFAULT_TIMEOUT_MS = 30_000
+
+export interface RequestOptions {
+  timeoutMs?: number
+  retry?: Partial<RetryOptions>
+  // share one limiter between clients so their requests count against the same limits
+  limiter?: RequestLimiter
+  // cache GET responses with these lifetimes; responses aren't cached when unset
+  cache?: Partial<CacheOptions>
+}
+
+// The adapter axios would otherwise use to send requests
+const networkAdapter = getAdapter(axios.defaults.adapter)
+
+export type Reauthenticator = () => Promise<string>
+
+// Fetches one page of a list method
+export type PageFetcher<T> = (page: { page: number; pageSize: number }) => Promise<ListResponse<T>>
+
+export interface ListAllOptions {
+  maxItems?: number
+  pageSize?: number
+}
+
+// How far iterate got through a list: the last page's Meta and the pages fetched
+export interface ListWalk {
+  meta?: ListResponse<unknown>["Meta"]
+  pagesFetched: number
+}
 
 export class BaseClient {
   protected client: AxiosInstance
   protected accessToken: string | null = null
+  protected tokenExpiry: Date | null = null
+  protected reauthenticator: Reauthenticator | null = null
+  protected retry: RetryOptions
+  protected limiter: RequestLimiter
+  protected cache: ResponseCache | null = null
+  // waits for a slot only around the network call, so retry backoff doesn't hold one
+  private limitedAdapter: AxiosAdapter = (config) => this.limiter.run(() => networkAdapter(config))
 
-  constructor(baseURL = "https://sandboxapi.ordercloud.io") {
-    this.client = axios.create({ baseURL })
+  constructor(baseURL = "https://sandboxapi.ordercloud.io", options: RequestOptions = {}) {
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry }
+    this.limiter = options.limiter ?? new RequestLimiter()
+    this.client = axios.create({
+      baseURL,
+      timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      // repeated filters go out as Field=a&Field=b, which OrderCloud ANDs together
+      paramsSerializer: { indexes: null },
+    })
 
-    this.client.interceptors.request.use((config) => {
+    this.client.interceptors.request.use(async (config) => {
+      if (this.reauthenticator && this.isTokenExpired()) {
+        DebugLogger.log("token_expired", { url: config.url, expiredAt: this.tokenExpiry?.toISOString() })
+        await outsideDryRun(() => this.reauthenticator!())
+      }
       if (this.accessToken) {
         config.headers.Authorization = `Bearer ${this.accessToken}`
       }
+
+      // Inside a dry run, writes are recorded and answered locally instead of reaching OrderCloud
+      if (isDryRun() && config.method && config.method.toLowerCase() !== "get") {
+        const planned = await this.planRequest(config)
+        recordRequest(planned)
+        DebugLogger.log("dry_run_request", { method: planned.method, path: planned.path })
+        config.adapter = async (adapterConfig) => ({
+          data: planned.body ?? "",
+          status: 200,
+          statusText: "OK (dry run)",
+          headers: {},
+          config: adapterConfig,
+        })
+        return config
+      }
+
+      // Answer repeated reads from the cache
+      const cached = this.cache && config.method === "get" && config.url ? this.cache.get(config.url, config.params) : undefined
+      if (cached !== undefined) {
+        config.adapter = async (adapterConfig) => ({ data: cached, status: 200, statusText: "OK (cached)", headers: {}, config: adapterConfig })
+        return config
+      }
+
+      config.adapter = this.limitedAdapter
       return config
     })
+
+    // Remember what was read, and forget what a write may have changed
+    this.client.interceptors.response.use((response) => {
+      const { config } = response
+      // only responses that came from OrderCloud, not dry-run or cached answers
+      if (this.cache && config.url && config.adapter === this.limitedAdapter) {
+        if (config.method === "get") {
+          this.cache.set(config.url, config.params, response.data)
+        } else {
+          this.cache.invalidate(config.url)
+        }
+      }
+      return response
+    })
+
+    // Replay a request once with a fresh token when OrderCloud rejects the current one
+    this.client.interceptors.response.use(undefined, async (error) => {
+      const config = error?.config as (InternalAxiosRequestConfig & { _authRetried?: boolean }) | undefined
+      if (error?.response?.status !== 401 || !config || config._authRetried || !this.reauthenticator) {
+        throw error
+      }
+
+      config._authRetried = true
+      DebugLogger.log("token_rejected", { url: config.url })
+      await outsideDryRun(() => this.reauthenticator!())
+      return this.client.request(config)
+    })
+
+    // Send throttled and transiently failed requests again, backing off between attempts
+    this.client.interceptors.response.use(undefined, async (error) => {
+      const config = error?.config as (InternalAxiosRequestConfig & { _retries?: number }) | undefined
+      if (!config || !axios.isAxiosError(error) || !isRetryable(error)) {
+        throw error
+      }
+
+      const retries = (config._retries ?? 0) + 1
+      if (retries > this.retry.maxRetries) throw error
+
+      const delayMs = retryDelay(error, retries, this.retry)
+      const attempt = { method: config.method, url: config.url, status: error.response?.status, code: error.code, retry: retries }
+      if (delayMs === null) {
+        DebugLogger.log("request_retry_skipped", { ...attempt, retryAfter: error.response?.headers["retry-after"] })
+        throw error
+      }
+
+      config._retries = retries
+      DebugLogger.log("request_retry", { ...attempt, delayMs })
+      await sleep(delayMs)
+      return this.client.request(config)
+    })
+
+    // Runs last, so the handlers above still see axios errors
+    this.client.interceptors.response.use(undefined, (error) => {
+      throw axios.isAxiosError(error) ? OrderCloudError.fromAxios(error) : error
+    })
   }
 
-  setAccessToken(token: string) {
+  // Describe a write request and, where a matching GET exists, how it would change the resource
+  private async planRequest(config: InternalAxiosRequestConfig): Promise<PlannedRequest> {
+    const method = config.method!.toUpperCase()
+    const planned: PlannedRequest = { method, path: config.url ?? "", query: config.params, body: config.data }
+
+    // assignments have no GET of their own, so there is no single resource to compare against
+    if (!["PUT", "PATCH", "DELETE"].includes(method) || !config.url || /assignments/i.test(config.url) || config.params) {
+      return planned
+    }
+
+    try {
+      const response = await this.client.get(config.url)
+      if (response.data?.Items && response.data?.Meta) return planned
+      planned.current = response.data
+    } catch (error: any) {
+      if (error?.response?.status !== 404) return planned
+      planned.current = null
+    }
+    planned.diff = diffRequest(method, planned.current, planned.body)
+    return planned
+  }
+
+  setAccessToken(token: string, expiresIn?: number) {
     this.accessToken = token
+    this.tokenExpiry = expiresIn
+      ? new Date(Date.now() + (expiresIn - Math.min(TOKEN_EXPIRY_MARGIN_SECONDS, expiresIn / 2)) * 1000)
+      : null
+  }
+
+  clearAccessToken() {
+    this.accessToken = null
+    this.tokenExpiry = null
+  }
+
+  setReauthenticator(reauthenticator: Reauthenticator | null) {
+    this.reauthenticator = reauthenticator
+  }
+
+  isTokenExpired(): boolean {
+    return this.tokenExpiry !== null && new Date() >= this.tokenExpiry
   }
 
   ensureAuthenticated() {
@@ -29,6 +209,81 @@ export class BaseClient {
     return this.accessToken
   }
 
+  getTokenExpiry(): Date | null {
+    return this.tokenExpiry
+  }
+
+  getBaseURL(): string | undefined {
+    return this.client.defaults.baseURL
+  }
+
+  setResponseCache(cache: ResponseCache | null) {
+    this.cache = cache
+  }
+
+  getLimiter(): RequestLimiter {
+    return this.limiter
+  }
+
+  /**
+   * Yield every item of a list, following Meta.TotalPages until the max-items cap,
+   * so callers can work through a long list without holding it all. Once done it
+   * returns how far the walk got.
+   */
+  async *iterate<T>(fetchPage: PageFetcher<T>, options: ListAllOptions = {}): AsyncGenerator<T, ListWalk> {
+    const { maxItems = DEFAULT_MAX_LIST_ITEMS } = options
+    const walk: ListWalk = { pagesFetched: 0 }
+    if (maxItems <= 0) return walk
+
+    let count = 0
+    for await (const response of this.pages(fetchPage, options.pageSize)) {
+      walk.pagesFetched++
+      walk.meta = response.Meta
+      for (const item of response.Items) {
+        yield item
+        // stop here rather than fetch a page nobody will read
+        if (++count >= maxItems) return walk
+      }
+    }
+    return walk
+  }
+
+  // Collect every page of a list into one response, stopping at the max-items cap
+  async listAll<T>(fetchPage: PageFetcher<T>, options: ListAllOptions = {}): Promise<ListAllResponse<T>> {
+    const items: T[] = []
+
+    DebugLogger.log("listAll_start", options)
+
+    const walk = this.iterate(fetchPage, options)
+    let next = await walk.next()
+    while (!next.done) {
+      items.push(next.value)
+      next = await walk.next()
+    }
+    const { meta: last, pagesFetched } = next.value
+
+    const totalCount = last?.TotalCount ?? items.length
+    const result = {
+      Items: items,
+      Meta: {
+        TotalCount: totalCount,
+        TotalPages: last?.TotalPages ?? pagesFetched,
+        PagesFetched: pagesFetched,
+        Truncated: items.length < totalCount,
+      },
+    }
+    DebugLogger.log("listAll_success", options, result.Meta)
+    return result
+  }
+
+  private async *pages<T>(fetchPage: PageFetcher<T>, pageSize = MAX_PAGE_SIZE): AsyncGenerator<ListResponse<T>> {
+    for (let page = 1; ; page++) {
+      const response = await fetchPage({ page, pageSize })
+      yield response
+      if (response.Items.length === 0 || page >= response.Meta.TotalPages) return
+    }
+  }
+
   getClient(): AxiosInstance {
     return this.client
   }
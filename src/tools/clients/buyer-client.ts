@@ -1,6 +1,7 @@
 import { BaseClient } from "./base-client.js"
-import type { Buyer, ListResponse } from "../../types/types.js"
+import type { AuthResponse, Buyer, ImpersonateTokenRequest, ListResponse } from "../../types/types.js"
 import { DebugLogger } from "../utils/debug.js"
+import { QueryBuilder, type FilterCondition } from "../utils/query-builder.js"
 
 export class BuyerClient extends BaseClient {
   
@@ -12,41 +13,15 @@ export class BuyerClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<Buyer>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listBuyers_start", options)
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-      DebugLogger.log("listBuyers_param", { search: options.search })
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-      DebugLogger.log("listBuyers_param", { searchOn: params.searchOn })
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-      DebugLogger.log("listBuyers_param", { sortBy: params.sortBy })
-    }
-    if (options?.page) {
-      params.page = options.page
-      DebugLogger.log("listBuyers_param", { page: options.page })
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-      DebugLogger.log("listBuyers_param", { pageSize: options.pageSize })
-    }
-
-    // filters are just key/value pairs
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-      DebugLogger.log("listBuyers_param", { filters: options.filters })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     DebugLogger.log("listBuyers_final_params", params)
 
@@ -157,41 +132,15 @@ export class BuyerClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<any>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listBuyerSellers_start", { buyerId, options })
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-      DebugLogger.log("listBuyerSellers_param", { search: options.search })
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-      DebugLogger.log("listBuyerSellers_param", { searchOn: params.searchOn })
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-      DebugLogger.log("listBuyerSellers_param", { sortBy: params.sortBy })
-    }
-    if (options?.page) {
-      params.page = options.page
-      DebugLogger.log("listBuyerSellers_param", { page: options.page })
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-      DebugLogger.log("listBuyerSellers_param", { pageSize: options.pageSize })
-    }
-
-    // filters are just key/value pairs
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-      DebugLogger.log("listBuyerSellers_param", { filters: options.filters })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     DebugLogger.log("listBuyerSellers_final_params", params)
 
@@ -204,4 +153,20 @@ export class BuyerClient extends BaseClient {
       throw error
     }
   }
+
+  // Get an access token for a buyer user, to act on their behalf (impersonation)
+  async getUserAccessToken(buyerId: string, userId: string, request: ImpersonateTokenRequest): Promise<AuthResponse> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("getUserAccessToken", { buyerId, userId, clientId: request.ClientID, roles: request.Roles })
+
+    try {
+      const response = await this.client.post<AuthResponse>(`v1/buyers/${buyerId}/users/${userId}/accesstoken`, request)
+      DebugLogger.log("getUserAccessToken_success", { buyerId, userId }, { expires_in: response.data.expires_in })
+      return response.data
+    } catch (error) {
+      DebugLogger.log("getUserAccessToken_error", { buyerId, userId }, undefined, error as Error)
+      throw error
+    }
+  }
 }
@@ -1,6 +1,7 @@
 import { BaseClient } from "./base-client.js"
 import type { Catalog, CatalogAssignment, CatalogBundleAssignment, CatalogProductAssignment, ListResponse } from "../../types/types.js"
 import { DebugLogger } from "../utils/debug.js"
+import { QueryBuilder, type FilterCondition } from "../utils/query-builder.js"
 
 export class CatalogClient extends BaseClient {
   
@@ -12,41 +13,15 @@ export class CatalogClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<Catalog>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listCatalogs_start", options)
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-      DebugLogger.log("listCatalogs_param", { search: options.search })
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-      DebugLogger.log("listCatalogs_param", { searchOn: params.searchOn })
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-      DebugLogger.log("listCatalogs_param", { sortBy: params.sortBy })
-    }
-    if (options?.page) {
-      params.page = options.page
-      DebugLogger.log("listCatalogs_param", { page: options.page })
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-      DebugLogger.log("listCatalogs_param", { pageSize: options.pageSize })
-    }
-
-    // filters are just key/value pairs
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-      DebugLogger.log("listCatalogs_param", { filters: options.filters })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     DebugLogger.log("listCatalogs_final_params", params)
 
@@ -177,34 +152,15 @@ export class CatalogClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<CatalogAssignment>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listCatalogAssignments_start", options)
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-    }
-    if (options?.page) {
-      params.page = options.page
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-    }
-
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     try {
       const response = await this.client.get<ListResponse<CatalogAssignment>>("v1/catalogs/assignments", { params })
@@ -253,34 +209,15 @@ export class CatalogClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<CatalogBundleAssignment>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listCatalogBundleAssignments_start", options)
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-    }
-    if (options?.page) {
-      params.page = options.page
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-    }
-
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     try {
       const response = await this.client.get<ListResponse<CatalogBundleAssignment>>("v1/catalogs/bundleassignments", { params })
@@ -329,34 +266,15 @@ export class CatalogClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<CatalogProductAssignment>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listCatalogProductAssignments_start", options)
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-    }
-    if (options?.page) {
-      params.page = options.page
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-    }
-
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     try {
       const response = await this.client.get<ListResponse<CatalogProductAssignment>>("v1/catalogs/productassignments", { params })
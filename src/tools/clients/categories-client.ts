@@ -1,6 +1,7 @@
 import { BaseClient } from "./base-client.js"
 import type { Category, CategoryAssignment, CategoryBundleAssignment, CategoryProductAssignment, ListResponse } from "../../types/types.js"
 import { DebugLogger } from "../utils/debug.js"
+import { QueryBuilder, type FilterCondition } from "../utils/query-builder.js"
 
 export class CategoryClient extends BaseClient {
   
@@ -12,41 +13,15 @@ export class CategoryClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<Category>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listCategories_start", { catalogId, options })
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-      DebugLogger.log("listCategories_param", { search: options.search })
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-      DebugLogger.log("listCategories_param", { searchOn: params.searchOn })
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-      DebugLogger.log("listCategories_param", { sortBy: params.sortBy })
-    }
-    if (options?.page) {
-      params.page = options.page
-      DebugLogger.log("listCategories_param", { page: options.page })
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-      DebugLogger.log("listCategories_param", { pageSize: options.pageSize })
-    }
-
-    // filters are just key/value pairs
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-      DebugLogger.log("listCategories_param", { filters: options.filters })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     DebugLogger.log("listCategories_final_params", params)
 
@@ -153,34 +128,15 @@ export class CategoryClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<CategoryAssignment>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listCategoryAssignments_start", { catalogId, options })
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-    }
-    if (options?.page) {
-      params.page = options.page
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-    }
-
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     try {
       const response = await this.client.get<ListResponse<CategoryAssignment>>(`v1/catalogs/${catalogId}/categories/assignments`, { params })
@@ -229,34 +185,15 @@ export class CategoryClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<CategoryBundleAssignment>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listCategoryBundleAssignments_start", { catalogId, options })
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-    }
-    if (options?.page) {
-      params.page = options.page
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-    }
-
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     try {
       const response = await this.client.get<ListResponse<CategoryBundleAssignment>>(`v1/catalogs/${catalogId}/categories/bundleassignments`, { params })
@@ -305,34 +242,15 @@ export class CategoryClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<CategoryProductAssignment>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listCategoryProductAssignments_start", { catalogId, options })
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-    }
-    if (options?.page) {
-      params.page = options.page
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-    }
-
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     try {
       const response = await this.client.get<ListResponse<CategoryProductAssignment>>(`v1/catalogs/${catalogId}/categories/productassignments`, { params })
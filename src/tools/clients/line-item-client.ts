@@ -0,0 +1,116 @@
+import { BaseClient } from "./base-client.js"
+import type { LineItem, ListResponse, OrderDirection } from "../../types/types.js"
+import { DebugLogger } from "../utils/debug.js"
+import { QueryBuilder, type FilterCondition } from "../utils/query-builder.js"
+
+export class LineItemClient extends BaseClient {
+
+  // List the line items of an order with filtering, searching, and sorting
+  async listLineItems(direction: OrderDirection, orderId: string, options?: {
+    search?: string
+    searchOn?: ("ID" | "ProductID")[]
+    sortBy?: ("ID" | "ProductID" | "DateAdded" | "!ID" | "!ProductID" | "!DateAdded")[]
+    page?: number
+    pageSize?: number
+    filters?: Record<string, any>
+    conditions?: FilterCondition[]
+  }): Promise<ListResponse<LineItem>> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("listLineItems_start", { direction, orderId, options })
+
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
+
+    DebugLogger.log("listLineItems_final_params", params)
+
+    try {
+      const response = await this.client.get<ListResponse<LineItem>>(`v1/orders/${direction}/${orderId}/lineitems`, { params })
+      DebugLogger.log("listLineItems_success", { direction, orderId, options }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("listLineItems_error", { direction, orderId, options }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Get a specific line item by ID
+  async getLineItem(direction: OrderDirection, orderId: string, lineItemId: string): Promise<LineItem> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("getLineItem", { direction, orderId, lineItemId })
+
+    try {
+      const response = await this.client.get<LineItem>(`v1/orders/${direction}/${orderId}/lineitems/${lineItemId}`)
+      DebugLogger.log("getLineItem_success", { direction, orderId, lineItemId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("getLineItem_error", { direction, orderId, lineItemId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Add a line item to an unsubmitted order
+  async createLineItem(direction: OrderDirection, orderId: string, lineItem: LineItem): Promise<LineItem> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("createLineItem", { direction, orderId, lineItem })
+
+    try {
+      const response = await this.client.post<LineItem>(`v1/orders/${direction}/${orderId}/lineitems`, lineItem)
+      DebugLogger.log("createLineItem_success", { direction, orderId, lineItem }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("createLineItem_error", { direction, orderId, lineItem }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Replace a line item (PUT - full update)
+  async updateLineItem(direction: OrderDirection, orderId: string, lineItemId: string, lineItem: LineItem): Promise<LineItem> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("updateLineItem", { direction, orderId, lineItemId, lineItem })
+
+    try {
+      const response = await this.client.put<LineItem>(`v1/orders/${direction}/${orderId}/lineitems/${lineItemId}`, lineItem)
+      DebugLogger.log("updateLineItem_success", { direction, orderId, lineItemId, lineItem }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("updateLineItem_error", { direction, orderId, lineItemId, lineItem }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Partially update a line item (PATCH - partial update)
+  async patchLineItem(direction: OrderDirection, orderId: string, lineItemId: string, lineItem: Partial<LineItem>): Promise<LineItem> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("patchLineItem", { direction, orderId, lineItemId, lineItem })
+
+    try {
+      const response = await this.client.patch<LineItem>(`v1/orders/${direction}/${orderId}/lineitems/${lineItemId}`, lineItem)
+      DebugLogger.log("patchLineItem_success", { direction, orderId, lineItemId, lineItem }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("patchLineItem_error", { direction, orderId, lineItemId, lineItem }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Remove a line item from an order
+  async deleteLineItem(direction: OrderDirection, orderId: string, lineItemId: string): Promise<void> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("deleteLineItem", { direction, orderId, lineItemId })
+
+    try {
+      await this.client.delete(`v1/orders/${direction}/${orderId}/lineitems/${lineItemId}`)
+      DebugLogger.log("deleteLineItem_success", { direction, orderId, lineItemId })
+    } catch (error) {
+      DebugLogger.log("deleteLineItem_error", { direction, orderId, lineItemId }, undefined, error as Error)
+      throw error
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import { BaseClient } from "./base-client.js"
+import type { Address, Catalog, ListResponse, Order, Product, User } from "../../types/types.js"
+import { DebugLogger } from "../utils/debug.js"
+import { QueryBuilder, type FilterCondition } from "../utils/query-builder.js"
+
+// Buyer-perspective (Me) endpoints, called with an impersonation token
+export class MeClient extends BaseClient {
+
+  ensureAuthenticated() {
+    if (!this.accessToken) {
+      throw new Error("No active impersonation. Please call impersonate_user first.")
+    }
+  }
+
+  // Get the impersonated user
+  async getMe(): Promise<User> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("getMe")
+
+    try {
+      const response = await this.client.get<User>("v1/me")
+      DebugLogger.log("getMe_success", {}, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("getMe_error", {}, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // List products the impersonated user can see
+  async listMeProducts(options?: {
+    catalogID?: string
+    categoryID?: string
+    depth?: string
+    search?: string
+    searchOn?: ("ID" | "ParentID" | "Name" | "Description")[]
+    searchType?: "AnyTerm" | "AllTermsAnyField" | "AllTermsSameField" | "ExactPhrase" | "ExactPhrasePrefix"
+    sortBy?: ("Name" | "ID" | "ParentID" | "!Name" | "!ID" | "!ParentID")[]
+    page?: number
+    pageSize?: number
+    filters?: Record<string, any>
+    conditions?: FilterCondition[]
+  }): Promise<ListResponse<Product>> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("listMeProducts_start", options)
+
+    const params = new QueryBuilder()
+      .list(options)
+      .param("catalogID", options?.catalogID)
+      .param("categoryID", options?.categoryID)
+      .param("depth", options?.depth)
+      .build()
+
+    DebugLogger.log("listMeProducts_final_params", params)
+
+    try {
+      const response = await this.client.get<ListResponse<Product>>("v1/me/products", { params })
+      DebugLogger.log("listMeProducts_success", options, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("listMeProducts_error", options, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Get a product as the impersonated user sees it (including price schedule)
+  async getMeProduct(productId: string): Promise<Product> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("getMeProduct", { productId })
+
+    try {
+      const response = await this.client.get<Product>(`v1/me/products/${productId}`)
+      DebugLogger.log("getMeProduct_success", { productId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("getMeProduct_error", { productId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // List catalogs visible to the impersonated user
+  async listMeCatalogs(options?: {
+    search?: string
+    searchOn?: ("ID" | "Name" | "Description")[]
+    sortBy?: ("Name" | "ID" | "!Name" | "!ID")[]
+    page?: number
+    pageSize?: number
+    filters?: Record<string, any>
+    conditions?: FilterCondition[]
+  }): Promise<ListResponse<Catalog>> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("listMeCatalogs_start", options)
+
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
+
+    DebugLogger.log("listMeCatalogs_final_params", params)
+
+    try {
+      const response = await this.client.get<ListResponse<Catalog>>("v1/me/catalogs", { params })
+      DebugLogger.log("listMeCatalogs_success", options, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("listMeCatalogs_error", options, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // List addresses assigned to the impersonated user
+  async listMeAddresses(options?: {
+    search?: string
+    searchOn?: ("ID" | "AddressName" | "CompanyName" | "FirstName" | "LastName" | "City" | "State" | "Zip" | "Country")[]
+    sortBy?: ("AddressName" | "CompanyName" | "City" | "State" | "Zip" | "Country" | "!AddressName" | "!CompanyName" | "!City" | "!State" | "!Zip" | "!Country")[]
+    page?: number
+    pageSize?: number
+    filters?: Record<string, any>
+    conditions?: FilterCondition[]
+  }): Promise<ListResponse<Address>> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("listMeAddresses_start", options)
+
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
+
+    DebugLogger.log("listMeAddresses_final_params", params)
+
+    try {
+      const response = await this.client.get<ListResponse<Address>>("v1/me/addresses", { params })
+      DebugLogger.log("listMeAddresses_success", options, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("listMeAddresses_error", options, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // List orders placed by the impersonated user
+  async listMeOrders(options?: {
+    from?: string
+    to?: string
+    search?: string
+    searchOn?: ("ID" | "Comments")[]
+    sortBy?: ("DateCreated" | "DateSubmitted" | "Status" | "Total" | "ID" | "!DateCreated" | "!DateSubmitted" | "!Status" | "!Total" | "!ID")[]
+    page?: number
+    pageSize?: number
+    filters?: Record<string, any>
+    conditions?: FilterCondition[]
+  }): Promise<ListResponse<Order>> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("listMeOrders_start", options)
+
+    const params = new QueryBuilder()
+      .list(options)
+      .param("from", options?.from)
+      .param("to", options?.to)
+      .build()
+
+    DebugLogger.log("listMeOrders_final_params", params)
+
+    try {
+      const response = await this.client.get<ListResponse<Order>>("v1/me/orders", { params })
+      DebugLogger.log("listMeOrders_success", options, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("listMeOrders_error", options, undefined, error as Error)
+      throw error
+    }
+  }
+}
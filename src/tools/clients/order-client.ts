@@ -0,0 +1,106 @@
+import { BaseClient } from "./base-client.js"
+import type { ListResponse, Order, OrderApprovalInfo, OrderDirection } from "../../types/types.js"
+import { DebugLogger } from "../utils/debug.js"
+import { QueryBuilder, type FilterCondition } from "../utils/query-builder.js"
+
+// Order state changes, each a bodiless POST except approve and decline
+type OrderAction = "submit" | "approve" | "decline" | "cancel" | "complete"
+
+export class OrderClient extends BaseClient {
+
+  // List orders in one direction with advanced filtering, searching, and sorting
+  async listOrders(direction: OrderDirection, options?: {
+    buyerID?: string
+    supplierID?: string
+    // DateSubmitted range, as ISO dates
+    from?: string
+    to?: string
+    search?: string
+    searchOn?: ("ID" | "FromUserID" | "Comments")[]
+    sortBy?: ("ID" | "DateCreated" | "DateSubmitted" | "Total" | "Status" | "!ID" | "!DateCreated" | "!DateSubmitted" | "!Total" | "!Status")[]
+    page?: number
+    pageSize?: number
+    filters?: Record<string, any>
+    conditions?: FilterCondition[]
+  }): Promise<ListResponse<Order>> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("listOrders_start", { direction, options })
+
+    const params = new QueryBuilder()
+      .list(options)
+      .param("buyerID", options?.buyerID)
+      .param("supplierID", options?.supplierID)
+      .param("from", options?.from)
+      .param("to", options?.to)
+      .build()
+
+    DebugLogger.log("listOrders_final_params", params)
+
+    try {
+      const response = await this.client.get<ListResponse<Order>>(`v1/orders/${direction}`, { params })
+      DebugLogger.log("listOrders_success", { direction, options }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("listOrders_error", { direction, options }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Get a specific order by ID
+  async getOrder(direction: OrderDirection, orderId: string): Promise<Order> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("getOrder", { direction, orderId })
+
+    try {
+      const response = await this.client.get<Order>(`v1/orders/${direction}/${orderId}`)
+      DebugLogger.log("getOrder_success", { direction, orderId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("getOrder_error", { direction, orderId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Submit an unsubmitted order, sending it for approval or straight to the seller
+  async submitOrder(direction: OrderDirection, orderId: string): Promise<Order> {
+    return this.changeStatus("submit", direction, orderId)
+  }
+
+  // Approve an order awaiting approval
+  async approveOrder(direction: OrderDirection, orderId: string, info: OrderApprovalInfo = {}): Promise<Order> {
+    return this.changeStatus("approve", direction, orderId, info)
+  }
+
+  // Decline an order awaiting approval
+  async declineOrder(direction: OrderDirection, orderId: string, info: OrderApprovalInfo = {}): Promise<Order> {
+    return this.changeStatus("decline", direction, orderId, info)
+  }
+
+  // Cancel an open or awaiting-approval order
+  async cancelOrder(direction: OrderDirection, orderId: string): Promise<Order> {
+    return this.changeStatus("cancel", direction, orderId)
+  }
+
+  // Mark an open order as completed
+  async completeOrder(direction: OrderDirection, orderId: string): Promise<Order> {
+    return this.changeStatus("complete", direction, orderId)
+  }
+
+  private async changeStatus(action: OrderAction, direction: OrderDirection, orderId: string, body?: OrderApprovalInfo): Promise<Order> {
+    this.ensureAuthenticated()
+
+    const operation = `${action}Order`
+    DebugLogger.log(operation, { direction, orderId, body })
+
+    try {
+      const response = await this.client.post<Order>(`v1/orders/${direction}/${orderId}/${action}`, body)
+      DebugLogger.log(`${operation}_success`, { direction, orderId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log(`${operation}_error`, { direction, orderId, body }, undefined, error as Error)
+      throw error
+    }
+  }
+}
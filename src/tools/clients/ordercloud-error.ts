@@ -0,0 +1,86 @@
+import type { AxiosError, AxiosResponse } from "axios"
+import type { ApiError } from "../../types/types.js"
+
+// Response headers that may carry an ID for the request, to quote to OrderCloud support
+const REQUEST_ID_HEADERS = ["x-oc-request-id", "x-request-id", "request-id"]
+
+interface OrderCloudErrorDetails {
+  status?: number
+  errors?: ApiError[]
+  requestId?: string
+  method?: string
+  path?: string
+  code?: string
+  response?: AxiosResponse
+}
+
+/**
+ * A failed OrderCloud request, with the Errors array from the response body
+ * instead of axios' generic "Request failed with status code" message.
+ */
+export class OrderCloudError extends Error {
+  readonly status?: number
+  readonly errors: ApiError[]
+  readonly requestId?: string
+  readonly method?: string
+  readonly path?: string
+  // network failure code, e.g. ECONNREFUSED, when no response came back
+  readonly code?: string
+  // kept so callers that log the raw response still can
+  readonly response?: AxiosResponse
+
+  constructor(message: string, details: OrderCloudErrorDetails = {}, cause?: unknown) {
+    super(message, { cause })
+    this.name = "OrderCloudError"
+    this.status = details.status
+    this.errors = details.errors ?? []
+    this.requestId = details.requestId
+    this.method = details.method
+    this.path = details.path
+    this.code = details.code
+    this.response = details.response
+  }
+
+  get errorCodes(): string[] {
+    return this.errors.map((error) => error.ErrorCode)
+  }
+
+  static fromAxios(error: AxiosError): OrderCloudError {
+    const { response, config } = error
+    const errors = parseErrors(response?.data)
+    const message =
+      errors.length > 0
+        ? errors.map((item) => `${item.ErrorCode}: ${item.Message}`).join("; ")
+        : response
+          ? `OrderCloud responded ${response.status} ${response.statusText}`.trim()
+          : `Could not reach OrderCloud: ${error.message}`
+
+    return new OrderCloudError(
+      message,
+      {
+        status: response?.status,
+        errors,
+        requestId: REQUEST_ID_HEADERS.map((header) => response?.headers?.[header]).find(Boolean),
+        method: config?.method?.toUpperCase(),
+        path: config?.url,
+        code: response ? undefined : error.code,
+        response,
+      },
+      error,
+    )
+  }
+}
+
+function parseErrors(data: unknown): ApiError[] {
+  const body = data as { Errors?: unknown; error?: unknown; error_description?: unknown } | undefined
+  // the token endpoint answers with OAuth's error / error_description instead
+  if (typeof body?.error === "string") {
+    return [{ ErrorCode: body.error, Message: String(body.error_description ?? "") }]
+  }
+
+  const errors = body?.Errors
+  if (!Array.isArray(errors)) return []
+  return errors
+    .filter((item) => item && typeof item.ErrorCode === "string")
+    .map(({ ErrorCode, Message, Data }) => ({ ErrorCode, Message: Message ?? "", ...(Data !== undefined && { Data }) }))
+}
@@ -0,0 +1,116 @@
+import { BaseClient } from "./base-client.js"
+import type { ListResponse, OrderDirection, Payment, PaymentTransaction } from "../../types/types.js"
+import { DebugLogger } from "../utils/debug.js"
+import { QueryBuilder, type FilterCondition } from "../utils/query-builder.js"
+
+export class PaymentClient extends BaseClient {
+
+  // List the payments applied to an order
+  async listPayments(direction: OrderDirection, orderId: string, options?: {
+    search?: string
+    searchOn?: ("ID" | "Description")[]
+    sortBy?: ("ID" | "DateCreated" | "Amount" | "!ID" | "!DateCreated" | "!Amount")[]
+    page?: number
+    pageSize?: number
+    filters?: Record<string, any>
+    conditions?: FilterCondition[]
+  }): Promise<ListResponse<Payment>> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("listPayments_start", { direction, orderId, options })
+
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
+
+    DebugLogger.log("listPayments_final_params", params)
+
+    try {
+      const response = await this.client.get<ListResponse<Payment>>(`v1/orders/${direction}/${orderId}/payments`, { params })
+      DebugLogger.log("listPayments_success", { direction, orderId, options }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("listPayments_error", { direction, orderId, options }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Get a specific payment by ID, with its transactions
+  async getPayment(direction: OrderDirection, orderId: string, paymentId: string): Promise<Payment> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("getPayment", { direction, orderId, paymentId })
+
+    try {
+      const response = await this.client.get<Payment>(`v1/orders/${direction}/${orderId}/payments/${paymentId}`)
+      DebugLogger.log("getPayment_success", { direction, orderId, paymentId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("getPayment_error", { direction, orderId, paymentId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Apply a payment to an order
+  async createPayment(direction: OrderDirection, orderId: string, payment: Payment): Promise<Payment> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("createPayment", { direction, orderId, payment })
+
+    try {
+      const response = await this.client.post<Payment>(`v1/orders/${direction}/${orderId}/payments`, payment)
+      DebugLogger.log("createPayment_success", { direction, orderId, payment }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("createPayment_error", { direction, orderId, payment }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Partially update a payment (PATCH - partial update)
+  async patchPayment(direction: OrderDirection, orderId: string, paymentId: string, payment: Partial<Payment>): Promise<Payment> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("patchPayment", { direction, orderId, paymentId, payment })
+
+    try {
+      const response = await this.client.patch<Payment>(`v1/orders/${direction}/${orderId}/payments/${paymentId}`, payment)
+      DebugLogger.log("patchPayment_success", { direction, orderId, paymentId, payment }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("patchPayment_error", { direction, orderId, paymentId, payment }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Remove a payment from an order
+  async deletePayment(direction: OrderDirection, orderId: string, paymentId: string): Promise<void> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("deletePayment", { direction, orderId, paymentId })
+
+    try {
+      await this.client.delete(`v1/orders/${direction}/${orderId}/payments/${paymentId}`)
+      DebugLogger.log("deletePayment_success", { direction, orderId, paymentId })
+    } catch (error) {
+      DebugLogger.log("deletePayment_error", { direction, orderId, paymentId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Record a transaction against a payment; returns the payment with its transactions
+  async createPaymentTransaction(direction: OrderDirection, orderId: string, paymentId: string, transaction: PaymentTransaction): Promise<Payment> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("createPaymentTransaction", { direction, orderId, paymentId, transaction })
+
+    try {
+      const response = await this.client.post<Payment>(`v1/orders/${direction}/${orderId}/payments/${paymentId}/transactions`, transaction)
+      DebugLogger.log("createPaymentTransaction_success", { direction, orderId, paymentId, transaction }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("createPaymentTransaction_error", { direction, orderId, paymentId, transaction }, undefined, error as Error)
+      throw error
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { BaseClient } from "./base-client.js"
 import type { PriceSchedule, PriceBreak, ListResponse } from "../../types/types.js"
 import { DebugLogger } from "../utils/debug.js"
+import { QueryBuilder, type FilterCondition } from "../utils/query-builder.js"
 
 export class PriceScheduleClient extends BaseClient {
   
@@ -12,41 +13,15 @@ export class PriceScheduleClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<PriceSchedule>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listPriceSchedules_start", options)
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-      DebugLogger.log("listPriceSchedules_param", { search: options.search })
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-      DebugLogger.log("listPriceSchedules_param", { searchOn: params.searchOn })
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-      DebugLogger.log("listPriceSchedules_param", { sortBy: params.sortBy })
-    }
-    if (options?.page) {
-      params.page = options.page
-      DebugLogger.log("listPriceSchedules_param", { page: options.page })
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-      DebugLogger.log("listPriceSchedules_param", { pageSize: options.pageSize })
-    }
-
-    // filters are just key/value pairs
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-      DebugLogger.log("listPriceSchedules_param", { filters: options.filters })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     DebugLogger.log("listPriceSchedules_final_params", params)
 
@@ -1,6 +1,7 @@
 import { BaseClient } from "./base-client.js"
 import type { Product, ProductAssignment, ProductSpec, ProductSupplier, ProductVariant, ListResponse } from "../../types/types.js"
 import { DebugLogger } from "../utils/debug.js"
+import { QueryBuilder, type FilterCondition } from "../utils/query-builder.js"
 
 export class ProductClient extends BaseClient {
   
@@ -9,8 +10,7 @@ export class ProductClient extends BaseClient {
   async getProducts(page = 1, pageSize = 20, catalogID?: string): Promise<ListResponse<Product>> {
     this.ensureAuthenticated()
     
-    const params: any = { page, pageSize }
-    if (catalogID) params.catalogID = catalogID
+    const params = new QueryBuilder().list({ page, pageSize }).param("catalogID", catalogID).build()
 
     DebugLogger.log("getProducts", { page, pageSize, catalogID, params })
 
@@ -37,57 +37,18 @@ export class ProductClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<Product>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listProducts_start", options)
 
-    const params: any = {}
-
-    if (options?.catalogID) {
-      params.catalogID = options.catalogID
-      DebugLogger.log("listProducts_param", { catalogID: options.catalogID })
-    }
-    if (options?.categoryID) {
-      params.categoryID = options.categoryID
-      DebugLogger.log("listProducts_param", { categoryID: options.categoryID })
-    }
-    if (options?.supplierID) {
-      params.supplierID = options.supplierID
-      DebugLogger.log("listProducts_param", { supplierID: options.supplierID })
-    }
-    if (options?.search) {
-      params.search = options.search
-      DebugLogger.log("listProducts_param", { search: options.search })
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-      DebugLogger.log("listProducts_param", { searchOn: params.searchOn })
-    }
-    if (options?.searchType) {
-      params.searchType = options.searchType
-      DebugLogger.log("listProducts_param", { searchType: options.searchType })
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-      DebugLogger.log("listProducts_param", { sortBy: params.sortBy })
-    }
-    if (options?.page) {
-      params.page = options.page
-      DebugLogger.log("listProducts_param", { page: options.page })
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-      DebugLogger.log("listProducts_param", { pageSize: options.pageSize })
-    }
-
-    // filters are just key/value pairs
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-      DebugLogger.log("listProducts_param", { filters: options.filters })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .param("catalogID", options?.catalogID)
+      .param("categoryID", options?.categoryID)
+      .param("supplierID", options?.supplierID)
+      .build()
 
     DebugLogger.log("listProducts_final_params", params)
 
@@ -205,34 +166,15 @@ export class ProductClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<ProductAssignment>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listProductAssignments_start", options)
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-    }
-    if (options?.page) {
-      params.page = options.page
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-    }
-
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     try {
       const response = await this.client.get<ListResponse<ProductAssignment>>("v1/products/assignments", { params })
@@ -281,34 +223,15 @@ export class ProductClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<ProductSpec>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listProductSpecs_start", { productId, options })
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-    }
-    if (options?.page) {
-      params.page = options.page
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-    }
-
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     try {
       const response = await this.client.get<ListResponse<ProductSpec>>(`v1/products/${productId}/specs`, { params })
@@ -328,34 +251,15 @@ export class ProductClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<ProductSupplier>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listProductSuppliers_start", { productId, options })
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-    }
-    if (options?.page) {
-      params.page = options.page
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-    }
-
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     try {
       const response = await this.client.get<ListResponse<ProductSupplier>>(`v1/products/${productId}/suppliers`, { params })
@@ -404,34 +308,15 @@ export class ProductClient extends BaseClient {
     page?: number
     pageSize?: number
     filters?: Record<string, any>
+    conditions?: FilterCondition[]
   }): Promise<ListResponse<ProductVariant>> {
     this.ensureAuthenticated()
 
     DebugLogger.log("listProductVariants_start", { productId, options })
 
-    const params: any = {}
-
-    if (options?.search) {
-      params.search = options.search
-    }
-    if (options?.searchOn && options.searchOn.length > 0) {
-      params.searchOn = options.searchOn.join(",")
-    }
-    if (options?.sortBy && options.sortBy.length > 0) {
-      params.sortBy = options.sortBy.join(",")
-    }
-    if (options?.page) {
-      params.page = options.page
-    }
-    if (options?.pageSize) {
-      params.pageSize = options.pageSize
-    }
-
-    if (options?.filters) {
-      Object.entries(options.filters).forEach(([key, value]) => {
-        params[`filters[${key}]`] = value
-      })
-    }
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
 
     try {
       const response = await this.client.get<ListResponse<ProductVariant>>(`v1/products/${productId}/variants`, { params })
@@ -0,0 +1,197 @@
+import { BaseClient } from "./base-client.js"
+import type { ListResponse, Shipment, ShipmentItem } from "../../types/types.js"
+import { DebugLogger } from "../utils/debug.js"
+import { QueryBuilder, type FilterCondition } from "../utils/query-builder.js"
+
+export class ShipmentClient extends BaseClient {
+
+  // List shipments with advanced filtering, searching, and sorting
+  async listShipments(options?: {
+    orderID?: string
+    buyerID?: string
+    search?: string
+    searchOn?: ("ID" | "TrackingNumber" | "Shipper")[]
+    sortBy?: ("ID" | "DateShipped" | "DateDelivered" | "!ID" | "!DateShipped" | "!DateDelivered")[]
+    page?: number
+    pageSize?: number
+    filters?: Record<string, any>
+    conditions?: FilterCondition[]
+  }): Promise<ListResponse<Shipment>> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("listShipments_start", options)
+
+    const params = new QueryBuilder()
+      .list(options)
+      .param("orderID", options?.orderID)
+      .param("buyerID", options?.buyerID)
+      .build()
+
+    DebugLogger.log("listShipments_final_params", params)
+
+    try {
+      const response = await this.client.get<ListResponse<Shipment>>("v1/shipments", { params })
+      DebugLogger.log("listShipments_success", options, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("listShipments_error", options, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Get a specific shipment by ID
+  async getShipment(shipmentId: string): Promise<Shipment> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("getShipment", { shipmentId })
+
+    try {
+      const response = await this.client.get<Shipment>(`v1/shipments/${shipmentId}`)
+      DebugLogger.log("getShipment_success", { shipmentId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("getShipment_error", { shipmentId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Create a new shipment; items are added to it separately
+  async createShipment(shipment: Shipment): Promise<Shipment> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("createShipment", shipment)
+
+    try {
+      const response = await this.client.post<Shipment>("v1/shipments", shipment)
+      DebugLogger.log("createShipment_success", shipment, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("createShipment_error", shipment, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Update an existing shipment (PUT - full update)
+  async updateShipment(shipmentId: string, shipment: Shipment): Promise<Shipment> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("updateShipment", { shipmentId, shipment })
+
+    try {
+      const response = await this.client.put<Shipment>(`v1/shipments/${shipmentId}`, shipment)
+      DebugLogger.log("updateShipment_success", { shipmentId, shipment }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("updateShipment_error", { shipmentId, shipment }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Partially update a shipment (PATCH - partial update)
+  async patchShipment(shipmentId: string, shipment: Partial<Shipment>): Promise<Shipment> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("patchShipment", { shipmentId, shipment })
+
+    try {
+      const response = await this.client.patch<Shipment>(`v1/shipments/${shipmentId}`, shipment)
+      DebugLogger.log("patchShipment_success", { shipmentId, shipment }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("patchShipment_error", { shipmentId, shipment }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Delete a shipment
+  async deleteShipment(shipmentId: string): Promise<void> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("deleteShipment", { shipmentId })
+
+    try {
+      await this.client.delete(`v1/shipments/${shipmentId}`)
+      DebugLogger.log("deleteShipment_success", { shipmentId })
+    } catch (error) {
+      DebugLogger.log("deleteShipment_error", { shipmentId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // List the line item quantities carried by a shipment
+  async listShipmentItems(shipmentId: string, options?: {
+    search?: string
+    searchOn?: ("OrderID" | "LineItemID")[]
+    sortBy?: ("OrderID" | "LineItemID" | "QuantityShipped" | "!OrderID" | "!LineItemID" | "!QuantityShipped")[]
+    page?: number
+    pageSize?: number
+    filters?: Record<string, any>
+    conditions?: FilterCondition[]
+  }): Promise<ListResponse<ShipmentItem>> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("listShipmentItems_start", { shipmentId, options })
+
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
+
+    DebugLogger.log("listShipmentItems_final_params", params)
+
+    try {
+      const response = await this.client.get<ListResponse<ShipmentItem>>(`v1/shipments/${shipmentId}/items`, { params })
+      DebugLogger.log("listShipmentItems_success", { shipmentId, options }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("listShipmentItems_error", { shipmentId, options }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Get the quantity of one line item carried by a shipment
+  async getShipmentItem(shipmentId: string, orderId: string, lineItemId: string): Promise<ShipmentItem> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("getShipmentItem", { shipmentId, orderId, lineItemId })
+
+    try {
+      const response = await this.client.get<ShipmentItem>(`v1/shipments/${shipmentId}/items/${orderId}/${lineItemId}`)
+      DebugLogger.log("getShipmentItem_success", { shipmentId, orderId, lineItemId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("getShipmentItem_error", { shipmentId, orderId, lineItemId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Add a line item quantity to a shipment, or change the quantity already on it
+  async saveShipmentItem(shipmentId: string, item: ShipmentItem): Promise<ShipmentItem> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("saveShipmentItem", { shipmentId, item })
+
+    try {
+      const response = await this.client.post<ShipmentItem>(`v1/shipments/${shipmentId}/items`, item)
+      DebugLogger.log("saveShipmentItem_success", { shipmentId, item }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("saveShipmentItem_error", { shipmentId, item }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Take a line item off a shipment
+  async deleteShipmentItem(shipmentId: string, orderId: string, lineItemId: string): Promise<void> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("deleteShipmentItem", { shipmentId, orderId, lineItemId })
+
+    try {
+      await this.client.delete(`v1/shipments/${shipmentId}/items/${orderId}/${lineItemId}`)
+      DebugLogger.log("deleteShipmentItem_success", { shipmentId, orderId, lineItemId })
+    } catch (error) {
+      DebugLogger.log("deleteShipmentItem_error", { shipmentId, orderId, lineItemId }, undefined, error as Error)
+      throw error
+    }
+  }
+}
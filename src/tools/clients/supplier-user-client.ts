@@ -0,0 +1,119 @@
+import { BaseClient } from "./base-client.js"
+import type { ListResponse, User } from "../../types/types.js"
+import { DebugLogger } from "../utils/debug.js"
+import { QueryBuilder, type FilterCondition } from "../utils/query-builder.js"
+
+export class SupplierUserClient extends BaseClient {
+
+  // List the users of a supplier with advanced filtering, searching, and sorting
+  async listSupplierUsers(supplierId: string, options?: {
+    userGroupID?: string
+    search?: string
+    searchOn?: ("ID" | "Username" | "FirstName" | "LastName" | "Email")[]
+    sortBy?: ("ID" | "Username" | "FirstName" | "LastName" | "Email" | "DateCreated" | "!ID" | "!Username" | "!FirstName" | "!LastName" | "!Email" | "!DateCreated")[]
+    page?: number
+    pageSize?: number
+    filters?: Record<string, any>
+    conditions?: FilterCondition[]
+  }): Promise<ListResponse<User>> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("listSupplierUsers_start", { supplierId, options })
+
+    const params = new QueryBuilder()
+      .list(options)
+      .param("userGroupID", options?.userGroupID)
+      .build()
+
+    DebugLogger.log("listSupplierUsers_final_params", params)
+
+    try {
+      const response = await this.client.get<ListResponse<User>>(`v1/suppliers/${supplierId}/users`, { params })
+      DebugLogger.log("listSupplierUsers_success", { supplierId, options }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("listSupplierUsers_error", { supplierId, options }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Get a specific supplier user by ID
+  async getSupplierUser(supplierId: string, userId: string): Promise<User> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("getSupplierUser", { supplierId, userId })
+
+    try {
+      const response = await this.client.get<User>(`v1/suppliers/${supplierId}/users/${userId}`)
+      DebugLogger.log("getSupplierUser_success", { supplierId, userId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("getSupplierUser_error", { supplierId, userId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Create a new user in a supplier
+  async createSupplierUser(supplierId: string, user: User): Promise<User> {
+    this.ensureAuthenticated()
+
+    // never log the password
+    DebugLogger.log("createSupplierUser", { supplierId, user: { ...user, Password: undefined } })
+
+    try {
+      const response = await this.client.post<User>(`v1/suppliers/${supplierId}/users`, user)
+      DebugLogger.log("createSupplierUser_success", { supplierId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("createSupplierUser_error", { supplierId, userId: user.ID }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Update an existing supplier user (PUT - full update)
+  async updateSupplierUser(supplierId: string, userId: string, user: User): Promise<User> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("updateSupplierUser", { supplierId, userId, user: { ...user, Password: undefined } })
+
+    try {
+      const response = await this.client.put<User>(`v1/suppliers/${supplierId}/users/${userId}`, user)
+      DebugLogger.log("updateSupplierUser_success", { supplierId, userId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("updateSupplierUser_error", { supplierId, userId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Partially update a supplier user (PATCH - partial update)
+  async patchSupplierUser(supplierId: string, userId: string, user: Partial<User>): Promise<User> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("patchSupplierUser", { supplierId, userId, user: { ...user, Password: undefined } })
+
+    try {
+      const response = await this.client.patch<User>(`v1/suppliers/${supplierId}/users/${userId}`, user)
+      DebugLogger.log("patchSupplierUser_success", { supplierId, userId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("patchSupplierUser_error", { supplierId, userId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Delete a supplier user
+  async deleteSupplierUser(supplierId: string, userId: string): Promise<void> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("deleteSupplierUser", { supplierId, userId })
+
+    try {
+      await this.client.delete(`v1/suppliers/${supplierId}/users/${userId}`)
+      DebugLogger.log("deleteSupplierUser_success", { supplierId, userId })
+    } catch (error) {
+      DebugLogger.log("deleteSupplierUser_error", { supplierId, userId }, undefined, error as Error)
+      throw error
+    }
+  }
+}
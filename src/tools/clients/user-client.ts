@@ -0,0 +1,137 @@
+import { BaseClient } from "./base-client.js"
+import type { ListResponse, User, UserOrderMoveOption } from "../../types/types.js"
+import { DebugLogger } from "../utils/debug.js"
+import { QueryBuilder, type FilterCondition } from "../utils/query-builder.js"
+
+export class UserClient extends BaseClient {
+
+  // List the users of a buyer with advanced filtering, searching, and sorting
+  async listUsers(buyerId: string, options?: {
+    userGroupID?: string
+    search?: string
+    searchOn?: ("ID" | "Username" | "FirstName" | "LastName" | "Email")[]
+    sortBy?: ("ID" | "Username" | "FirstName" | "LastName" | "Email" | "DateCreated" | "!ID" | "!Username" | "!FirstName" | "!LastName" | "!Email" | "!DateCreated")[]
+    page?: number
+    pageSize?: number
+    filters?: Record<string, any>
+    conditions?: FilterCondition[]
+  }): Promise<ListResponse<User>> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("listUsers_start", { buyerId, options })
+
+    const params = new QueryBuilder()
+      .list(options)
+      .param("userGroupID", options?.userGroupID)
+      .build()
+
+    DebugLogger.log("listUsers_final_params", params)
+
+    try {
+      const response = await this.client.get<ListResponse<User>>(`v1/buyers/${buyerId}/users`, { params })
+      DebugLogger.log("listUsers_success", { buyerId, options }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("listUsers_error", { buyerId, options }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Get a specific buyer user by ID
+  async getUser(buyerId: string, userId: string): Promise<User> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("getUser", { buyerId, userId })
+
+    try {
+      const response = await this.client.get<User>(`v1/buyers/${buyerId}/users/${userId}`)
+      DebugLogger.log("getUser_success", { buyerId, userId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("getUser_error", { buyerId, userId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Create a new user in a buyer
+  async createUser(buyerId: string, user: User): Promise<User> {
+    this.ensureAuthenticated()
+
+    // never log the password
+    DebugLogger.log("createUser", { buyerId, user: { ...user, Password: undefined } })
+
+    try {
+      const response = await this.client.post<User>(`v1/buyers/${buyerId}/users`, user)
+      DebugLogger.log("createUser_success", { buyerId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("createUser_error", { buyerId, userId: user.ID }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Update an existing buyer user (PUT - full update)
+  async updateUser(buyerId: string, userId: string, user: User): Promise<User> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("updateUser", { buyerId, userId, user: { ...user, Password: undefined } })
+
+    try {
+      const response = await this.client.put<User>(`v1/buyers/${buyerId}/users/${userId}`, user)
+      DebugLogger.log("updateUser_success", { buyerId, userId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("updateUser_error", { buyerId, userId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Partially update a buyer user (PATCH - partial update)
+  async patchUser(buyerId: string, userId: string, user: Partial<User>): Promise<User> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("patchUser", { buyerId, userId, user: { ...user, Password: undefined } })
+
+    try {
+      const response = await this.client.patch<User>(`v1/buyers/${buyerId}/users/${userId}`, user)
+      DebugLogger.log("patchUser_success", { buyerId, userId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("patchUser_error", { buyerId, userId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Delete a buyer user
+  async deleteUser(buyerId: string, userId: string): Promise<void> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("deleteUser", { buyerId, userId })
+
+    try {
+      await this.client.delete(`v1/buyers/${buyerId}/users/${userId}`)
+      DebugLogger.log("deleteUser_success", { buyerId, userId })
+    } catch (error) {
+      DebugLogger.log("deleteUser_error", { buyerId, userId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Move a user to another buyer, optionally taking their orders along
+  async moveUser(buyerId: string, userId: string, newBuyerId: string, orders: UserOrderMoveOption): Promise<User> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("moveUser", { buyerId, userId, newBuyerId, orders })
+
+    try {
+      const response = await this.client.post<User>(`v1/buyers/${buyerId}/users/${userId}/moveto/${newBuyerId}`, undefined, {
+        params: { orders },
+      })
+      DebugLogger.log("moveUser_success", { buyerId, userId, newBuyerId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("moveUser_error", { buyerId, userId, newBuyerId }, undefined, error as Error)
+      throw error
+    }
+  }
+}
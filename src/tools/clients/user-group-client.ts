@@ -0,0 +1,185 @@
+import { BaseClient, type RequestOptions } from "./base-client.js"
+import type { ListResponse, UserGroup, UserGroupAssignment } from "../../types/types.js"
+import { DebugLogger } from "../utils/debug.js"
+import { QueryBuilder, type FilterCondition } from "../utils/query-builder.js"
+
+// Organizations that have user groups of their own
+export type UserGroupParent = "buyers" | "suppliers"
+
+/**
+ * User groups and memberships of either buyers or suppliers; the two APIs only
+ * differ in the parent they live under (v1/buyers/{id}/usergroups or v1/suppliers/{id}/usergroups).
+ */
+export class UserGroupClient extends BaseClient {
+  constructor(baseURL?: string, options: RequestOptions = {}, readonly parent: UserGroupParent = "buyers") {
+    super(baseURL, options)
+  }
+
+  // List the user groups of a buyer or supplier with advanced filtering, searching, and sorting
+  async listUserGroups(parentId: string, options?: {
+    search?: string
+    searchOn?: ("ID" | "Name" | "Description")[]
+    sortBy?: ("Name" | "ID" | "!Name" | "!ID")[]
+    page?: number
+    pageSize?: number
+    filters?: Record<string, any>
+    conditions?: FilterCondition[]
+  }): Promise<ListResponse<UserGroup>> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("listUserGroups_start", { parent: this.parent, parentId, options })
+
+    const params = new QueryBuilder()
+      .list(options)
+      .build()
+
+    DebugLogger.log("listUserGroups_final_params", params)
+
+    try {
+      const response = await this.client.get<ListResponse<UserGroup>>(`v1/${this.parent}/${parentId}/usergroups`, { params })
+      DebugLogger.log("listUserGroups_success", { parent: this.parent, parentId, options }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("listUserGroups_error", { parent: this.parent, parentId, options }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Get a specific user group by ID
+  async getUserGroup(parentId: string, userGroupId: string): Promise<UserGroup> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("getUserGroup", { parent: this.parent, parentId, userGroupId })
+
+    try {
+      const response = await this.client.get<UserGroup>(`v1/${this.parent}/${parentId}/usergroups/${userGroupId}`)
+      DebugLogger.log("getUserGroup_success", { parent: this.parent, parentId, userGroupId }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("getUserGroup_error", { parent: this.parent, parentId, userGroupId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Create a new user group in a buyer or supplier
+  async createUserGroup(parentId: string, userGroup: UserGroup): Promise<UserGroup> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("createUserGroup", { parent: this.parent, parentId, userGroup })
+
+    try {
+      const response = await this.client.post<UserGroup>(`v1/${this.parent}/${parentId}/usergroups`, userGroup)
+      DebugLogger.log("createUserGroup_success", { parent: this.parent, parentId, userGroup }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("createUserGroup_error", { parent: this.parent, parentId, userGroup }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Update an existing user group (PUT - full update)
+  async updateUserGroup(parentId: string, userGroupId: string, userGroup: UserGroup): Promise<UserGroup> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("updateUserGroup", { parent: this.parent, parentId, userGroupId, userGroup })
+
+    try {
+      const response = await this.client.put<UserGroup>(`v1/${this.parent}/${parentId}/usergroups/${userGroupId}`, userGroup)
+      DebugLogger.log("updateUserGroup_success", { parent: this.parent, parentId, userGroupId, userGroup }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("updateUserGroup_error", { parent: this.parent, parentId, userGroupId, userGroup }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Partially update a user group (PATCH - partial update)
+  async patchUserGroup(parentId: string, userGroupId: string, userGroup: Partial<UserGroup>): Promise<UserGroup> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("patchUserGroup", { parent: this.parent, parentId, userGroupId, userGroup })
+
+    try {
+      const response = await this.client.patch<UserGroup>(`v1/${this.parent}/${parentId}/usergroups/${userGroupId}`, userGroup)
+      DebugLogger.log("patchUserGroup_success", { parent: this.parent, parentId, userGroupId, userGroup }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("patchUserGroup_error", { parent: this.parent, parentId, userGroupId, userGroup }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Delete a user group; its members stay in the buyer or supplier
+  async deleteUserGroup(parentId: string, userGroupId: string): Promise<void> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("deleteUserGroup", { parent: this.parent, parentId, userGroupId })
+
+    try {
+      await this.client.delete(`v1/${this.parent}/${parentId}/usergroups/${userGroupId}`)
+      DebugLogger.log("deleteUserGroup_success", { parent: this.parent, parentId, userGroupId })
+    } catch (error) {
+      DebugLogger.log("deleteUserGroup_error", { parent: this.parent, parentId, userGroupId }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // List user group memberships, for one group, one user or the whole buyer or supplier
+  async listUserGroupAssignments(parentId: string, options?: {
+    userGroupID?: string
+    userID?: string
+    page?: number
+    pageSize?: number
+  }): Promise<ListResponse<UserGroupAssignment>> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("listUserGroupAssignments_start", { parent: this.parent, parentId, options })
+
+    const params = new QueryBuilder()
+      .list(options)
+      .param("userGroupID", options?.userGroupID)
+      .param("userID", options?.userID)
+      .build()
+
+    DebugLogger.log("listUserGroupAssignments_final_params", params)
+
+    try {
+      const response = await this.client.get<ListResponse<UserGroupAssignment>>(`v1/${this.parent}/${parentId}/usergroups/assignments`, { params })
+      DebugLogger.log("listUserGroupAssignments_success", { parent: this.parent, parentId, options }, response.data)
+      return response.data
+    } catch (error) {
+      DebugLogger.log("listUserGroupAssignments_error", { parent: this.parent, parentId, options }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Add a user to a user group
+  async saveUserGroupAssignment(parentId: string, assignment: UserGroupAssignment): Promise<void> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("saveUserGroupAssignment", { parent: this.parent, parentId, assignment })
+
+    try {
+      await this.client.post(`v1/${this.parent}/${parentId}/usergroups/assignments`, assignment)
+      DebugLogger.log("saveUserGroupAssignment_success", { parent: this.parent, parentId, assignment })
+    } catch (error) {
+      DebugLogger.log("saveUserGroupAssignment_error", { parent: this.parent, parentId, assignment }, undefined, error as Error)
+      throw error
+    }
+  }
+
+  // Remove a user from a user group
+  async deleteUserGroupAssignment(parentId: string, userGroupId: string, userId: string): Promise<void> {
+    this.ensureAuthenticated()
+
+    DebugLogger.log("deleteUserGroupAssignment", { parent: this.parent, parentId, userGroupId, userId })
+
+    try {
+      await this.client.delete(`v1/${this.parent}/${parentId}/usergroups/${userGroupId}/assignments/${userId}`)
+      DebugLogger.log("deleteUserGroupAssignment_success", { parent: this.parent, parentId, userGroupId, userId })
+    } catch (error) {
+      DebugLogger.log("deleteUserGroupAssignment_error", { parent: this.parent, parentId, userGroupId, userId }, undefined, error as Error)
+      throw error
+    }
+  }
+}
@@ -2,6 +2,9 @@ import { z } from "zod"
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import OrderCloudClient from "../ordercloud-client.js"
 import { DebugLogger } from "../utils/debug.js"
+import { filterInputs } from "../utils/list-inputs.js"
+import { QueryBuilder } from "../utils/query-builder.js"
+import { toolError } from "../utils/tool-error.js"
 
 export function registerDebugTools(server: McpServer, orderCloudClient: OrderCloudClient) {
   
@@ -38,15 +41,7 @@ export function registerDebugTools(server: McpServer, orderCloudClient: OrderClo
         ]
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting debug logs: ${error instanceof Error ? error.message : String(error)}`
-          }
-        ],
-        isError: true
-      }
+      return toolError("Error getting debug logs", error)
     }
   })
 
@@ -67,15 +62,42 @@ export function registerDebugTools(server: McpServer, orderCloudClient: OrderClo
         ]
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error clearing debug logs: ${error instanceof Error ? error.message : String(error)}`
-          }
-        ],
-        isError: true
-      }
+      return toolError("Error clearing debug logs", error)
+    }
+  })
+
+  // Tool: Cache Stats
+  server.registerTool("cache_stats", {
+    title: "Cache Stats",
+    description: "Show how the OrderCloud response cache is performing: entries, hits, misses and TTLs",
+    inputSchema: {},
+  }, async () => {
+    const cache = orderCloudClient.getResponseCache()
+    const stats = cache ? { enabled: true, ...cache.stats() } : { enabled: false, hint: "Set ORDERCLOUD_CACHE=true to cache GET responses" }
+    return {
+      content: [
+        {
+          type: "text",
+          text: `CACHE STATS:\n${JSON.stringify(stats, null, 2)}`
+        }
+      ]
+    }
+  })
+
+  // Tool: Clear Cache
+  server.registerTool("clear_cache", {
+    title: "Clear Cache",
+    description: "Drop every cached OrderCloud response so the next reads fetch fresh data",
+    inputSchema: {},
+  }, async () => {
+    const cache = orderCloudClient.getResponseCache()
+    return {
+      content: [
+        {
+          type: "text",
+          text: cache ? `Cleared ${cache.clear()} cached responses` : "Response cache is not enabled"
+        }
+      ]
     }
   })
 
@@ -103,14 +125,16 @@ export function registerDebugTools(server: McpServer, orderCloudClient: OrderClo
         authentication: {
           success: hasToken,
           duration: authDuration,
-          accessToken: hasToken ? "Present" : "Missing"
+          accessToken: hasToken ? "Present" : "Missing",
+          expiresAt: orderCloudClient.products.getTokenExpiry()?.toISOString() ?? null
         },
         apiTest: {
           success: true,
           duration: apiDuration,
           productsFound: productsResult.Items?.length || 0,
           totalProducts: productsResult.Meta?.TotalCount || 0
-        }
+        },
+        requestQueue: orderCloudClient.getRequestStats()
       }
 
       DebugLogger.log("test_api_connection", {}, debugInfo, undefined, Date.now() - startTime)
@@ -124,25 +148,13 @@ export function registerDebugTools(server: McpServer, orderCloudClient: OrderClo
         ]
       }
     } catch (error) {
-      const debugInfo = {
-        timestamp: new Date().toISOString(),
-        error: {
-          message: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined
-        }
-      }
-
       DebugLogger.log("test_api_connection", {}, undefined, error as Error, Date.now())
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: `API CONNECTION TEST FAILED:\n${JSON.stringify(debugInfo, null, 2)}`
-          }
-        ],
-        isError: true
-      }
+      return toolError("API connection test failed", error, {
+        timestamp: new Date().toISOString(),
+        stack: error instanceof Error ? error.stack : undefined,
+        requestQueue: orderCloudClient.getRequestStats()
+      })
     }
   })
 
@@ -169,7 +181,7 @@ export function registerDebugTools(server: McpServer, orderCloudClient: OrderClo
         "OwnerID", "Name", "ID", "ParentID",
         "!OwnerID", "!Name", "!ID", "!ParentID"
       ])).optional(),
-      filters: z.record(z.any()).optional(),
+      ...filterInputs,
     },
   }, async (input) => {
     try {
@@ -182,60 +194,12 @@ export function registerDebugTools(server: McpServer, orderCloudClient: OrderClo
         throw new Error("Not authenticated. Please authenticate first.")
       }
       
-      // Build params step by step for debugging
-      const params: any = {}
-      
-      if (input.catalogID) {
-        params.catalogID = input.catalogID
-        DebugLogger.log("debug_product_list_param", { catalogID: input.catalogID })
-      }
-      
-      if (input.categoryID) {
-        params.categoryID = input.categoryID
-        DebugLogger.log("debug_product_list_param", { categoryID: input.categoryID })
-      }
-      
-      if (input.supplierID) {
-        params.supplierID = input.supplierID
-        DebugLogger.log("debug_product_list_param", { supplierID: input.supplierID })
-      }
-      
-      if (input.search) {
-        params.search = input.search
-        DebugLogger.log("debug_product_list_param", { search: input.search })
-      }
-      
-      if (input.searchOn && input.searchOn.length > 0) {
-        params.searchOn = input.searchOn.join(",")
-        DebugLogger.log("debug_product_list_param", { searchOn: params.searchOn })
-      }
-      
-      if (input.searchType) {
-        params.searchType = input.searchType
-        DebugLogger.log("debug_product_list_param", { searchType: input.searchType })
-      }
-      
-      if (input.sortBy && input.sortBy.length > 0) {
-        params.sortBy = input.sortBy.join(",")
-        DebugLogger.log("debug_product_list_param", { sortBy: params.sortBy })
-      }
-      
-      if (input.page) {
-        params.page = input.page
-        DebugLogger.log("debug_product_list_param", { page: input.page })
-      }
-      
-      if (input.pageSize) {
-        params.pageSize = input.pageSize
-        DebugLogger.log("debug_product_list_param", { pageSize: input.pageSize })
-      }
-      
-      if (input.filters) {
-        Object.entries(input.filters).forEach(([key, value]) => {
-          params[`filters[${key}]`] = value
-        })
-        DebugLogger.log("debug_product_list_param", { filters: input.filters })
-      }
+      const params = new QueryBuilder()
+        .list(input)
+        .param("catalogID", input.catalogID)
+        .param("categoryID", input.categoryID)
+        .param("supplierID", input.supplierID)
+        .build()
       
       DebugLogger.log("debug_product_list_final_params", params)
       
@@ -266,33 +230,11 @@ export function registerDebugTools(server: McpServer, orderCloudClient: OrderClo
         ]
       }
     } catch (error) {
-      const duration = Date.now() - Date.now()
-      const errorResult = {
-        success: false,
-        duration,
-        error: {
-          message: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined,
-          response: (error as any)?.response ? {
-            status: (error as any).response.status,
-            statusText: (error as any).response.statusText,
-            data: (error as any).response.data,
-            headers: (error as any).response.headers
-          } : undefined
-        }
-      }
-      
-      DebugLogger.log("debug_product_list_error", input, undefined, error as Error, duration)
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `DEBUG PRODUCT LIST ERROR:\n${JSON.stringify(errorResult, null, 2)}`
-          }
-        ],
-        isError: true
-      }
+      DebugLogger.log("debug_product_list_error", input, undefined, error as Error)
+
+      return toolError("Debug product list failed", error, {
+        stack: error instanceof Error ? error.stack : undefined
+      })
     }
   })
 
@@ -477,34 +419,12 @@ export function registerDebugTools(server: McpServer, orderCloudClient: OrderClo
         ]
       }
     } catch (error) {
-      const duration = Date.now() - Date.now()
-      const errorResult = {
-        success: false,
-        duration,
+      DebugLogger.log("debug_promotion_creation_error", input, undefined, error as Error)
+
+      return toolError("Debug promotion creation failed", error, {
         input,
-        error: {
-          message: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined,
-          response: (error as any)?.response ? {
-            status: (error as any).response.status,
-            statusText: (error as any).response.statusText,
-            data: (error as any).response.data,
-            headers: (error as any).response.headers
-          } : undefined
-        }
-      }
-      
-      DebugLogger.log("debug_promotion_creation_error", input, undefined, error as Error, duration)
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `DEBUG PROMOTION CREATION ERROR:\n${JSON.stringify(errorResult, null, 2)}`
-          }
-        ],
-        isError: true
-      }
+        stack: error instanceof Error ? error.stack : undefined
+      })
     }
   })
 
@@ -590,34 +510,12 @@ export function registerDebugTools(server: McpServer, orderCloudClient: OrderClo
         ]
       }
     } catch (error) {
-      const duration = Date.now() - Date.now()
-      const errorResult = {
-        success: false,
-        duration,
+      DebugLogger.log("test_simple_promotion_error", input, undefined, error as Error)
+
+      return toolError("Simple promotion test failed", error, {
         input,
-        error: {
-          message: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined,
-          response: (error as any)?.response ? {
-            status: (error as any).response.status,
-            statusText: (error as any).response.statusText,
-            data: (error as any).response.data,
-            headers: (error as any).response.headers
-          } : undefined
-        }
-      }
-      
-      DebugLogger.log("test_simple_promotion_error", input, undefined, error as Error, duration)
-      
-      return {
-        content: [
-          {
-            type: "text",
-            text: `SIMPLE PROMOTION TEST ERROR:\n${JSON.stringify(errorResult, null, 2)}`
-          }
-        ],
-        isError: true
-      }
+        stack: error instanceof Error ? error.stack : undefined
+      })
     }
   })
 }
@@ -0,0 +1,103 @@
+import { randomBytes } from "node:crypto"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import OrderCloudClient from "./ordercloud-client.js"
+import { summarizeDeletion, type DeleteSummary } from "./delete-summaries.js"
+import { DebugLogger } from "./utils/debug.js"
+
+const CONFIRM_TOKEN_TTL_MS = 5 * 60 * 1000
+
+// Resolves to nothing when the delete may go ahead, or to the tool result to return instead
+export type DeleteConfirmation = (tool: string, args: Record<string, any>, confirmToken?: string) => Promise<any | undefined>
+
+/**
+ * Single-use tokens for the two-step confirmation, bound to the exact tool
+ * and arguments they were issued for.
+ */
+class ConfirmTokens {
+  private tokens = new Map<string, { key: string; expiresAt: number }>()
+
+  issue(tool: string, args: Record<string, any>): string {
+    this.prune()
+    const token = randomBytes(6).toString("hex")
+    this.tokens.set(token, { key: tokenKey(tool, args), expiresAt: Date.now() + CONFIRM_TOKEN_TTL_MS })
+    return token
+  }
+
+  consume(token: string, tool: string, args: Record<string, any>): boolean {
+    const entry = this.tokens.get(token)
+    if (!entry || entry.expiresAt < Date.now() || entry.key !== tokenKey(tool, args)) return false
+    this.tokens.delete(token)
+    return true
+  }
+
+  private prune() {
+    const now = Date.now()
+    for (const [token, entry] of this.tokens) {
+      if (entry.expiresAt < now) this.tokens.delete(token)
+    }
+  }
+}
+
+function tokenKey(tool: string, args: Record<string, any>): string {
+  return JSON.stringify([tool, Object.keys(args).sort().map((key) => [key, args[key]])])
+}
+
+function describe(tool: string, summary: DeleteSummary): string {
+  const losses = summary.losses.length > 0 ? ` This also removes ${summary.losses.join(", ")}.` : ""
+  return `${tool} will permanently delete ${summary.target}.${losses}`
+}
+
+/**
+ * Asks the user before a delete runs: through MCP elicitation when the client
+ * supports it, otherwise by handing back a confirm token the caller must echo.
+ */
+export function createDeleteConfirmation(server: McpServer, orderCloudClient: OrderCloudClient): DeleteConfirmation {
+  const tokens = new ConfirmTokens()
+
+  return async (tool, args, confirmToken) => {
+    if (confirmToken && tokens.consume(confirmToken, tool, args)) {
+      DebugLogger.log("delete_confirmed", { tool, args, via: "token" })
+      return undefined
+    }
+
+    const summary = await summarizeDeletion(orderCloudClient, tool, args)
+    const message = describe(tool, summary)
+
+    if (server.server.getClientCapabilities()?.elicitation) {
+      try {
+        const answer = await server.server.elicitInput({
+          message: `${message} Do you want to continue?`,
+          requestedSchema: {
+            type: "object",
+            properties: {
+              confirm: { type: "boolean", title: "Delete", description: `Permanently delete ${summary.target}` },
+            },
+            required: ["confirm"],
+          },
+        })
+
+        if (answer.action === "accept" && answer.content?.confirm === true) {
+          DebugLogger.log("delete_confirmed", { tool, args, via: "elicitation" })
+          return undefined
+        }
+        DebugLogger.log("delete_declined", { tool, args, action: answer.action })
+        return { content: [{ type: "text", text: `Deletion cancelled by the user. Nothing was deleted.\n${message}` }] }
+      } catch (error) {
+        // fall through to the token handshake when the client can't answer
+        DebugLogger.log("delete_elicitation_error", { tool }, undefined, error as Error)
+      }
+    }
+
+    const token = tokens.issue(tool, args)
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${confirmToken ? "The confirm token is invalid or expired. " : ""}Confirmation required, nothing was deleted.
+${message}
+After the user agrees, call ${tool} again with the same arguments and confirmToken: "${token}" (valid for ${CONFIRM_TOKEN_TTL_MS / 60000} minutes).`,
+        },
+      ],
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import OrderCloudClient from "./ordercloud-client.js"
+import type { ListResponse } from "../types/types.js"
+
+// What a delete tool is about to remove, shown before asking for confirmation
+export interface DeleteSummary {
+  // e.g. catalog "Spring Range" (spring-2024)
+  target: string
+  // dependent records that go with it, e.g. "12 categories"
+  losses: string[]
+}
+
+type Summarizer = (orderCloudClient: OrderCloudClient, args: Record<string, any>) => Promise<DeleteSummary>
+
+// Total count of a list, read from a single-item page
+async function count(list: Promise<ListResponse<unknown>>, noun: string): Promise<string> {
+  try {
+    const { Meta } = await list
+    return `${Meta.TotalCount} ${noun}`
+  } catch {
+    return `an unknown number of ${noun}`
+  }
+}
+
+function label(kind: string, id: string, name?: string): string {
+  return name ? `${kind} "${name}" (${id})` : `${kind} ${id}`
+}
+
+const SUMMARIZERS: Record<string, Summarizer> = {
+  delete_product: async (client, { productId }) => {
+    const product = await client.products.getProduct(productId)
+    return {
+      target: label("product", productId, product.Name),
+      losses: await Promise.all([
+        count(client.products.listProductVariants(productId, { pageSize: 1 }), "variants"),
+        count(client.products.listProductSpecs(productId, { pageSize: 1 }), "spec assignments"),
+        count(client.products.listProductAssignments({ filters: { ProductID: productId }, pageSize: 1 }), "buyer/user assignments"),
+        count(client.catalogs.listCatalogProductAssignments({ filters: { ProductID: productId }, pageSize: 1 }), "catalog assignments"),
+        count(client.products.listProductSuppliers(productId, { pageSize: 1 }), "supplier links"),
+      ]),
+    }
+  },
+
+  delete_catalog: async (client, { catalogId }) => {
+    const catalog = await client.catalogs.get(catalogId)
+    return {
+      target: label("catalog", catalogId, catalog.Name),
+      losses: await Promise.all([
+        count(client.categories.listCategories(catalogId, { pageSize: 1 }), "categories"),
+        count(client.catalogs.listCatalogProductAssignments({ filters: { CatalogID: catalogId }, pageSize: 1 }), "product assignments"),
+        count(client.catalogs.listCatalogAssignments({ filters: { CatalogID: catalogId }, pageSize: 1 }), "buyer/user assignments"),
+      ]),
+    }
+  },
+
+  delete_category: async (client, { catalogId, categoryId }) => {
+    const category = await client.categories.getCategory(catalogId, categoryId)
+    return {
+      target: label("category", categoryId, category.Name),
+      losses: await Promise.all([
+        count(client.categories.listCategories(catalogId, { filters: { ParentID: categoryId }, pageSize: 1 }), "child categories"),
+        count(
+          client.categories.listCategoryProductAssignments(catalogId, { filters: { CategoryID: categoryId }, pageSize: 1 }),
+          "product assignments",
+        ),
+      ]),
+    }
+  },
+
+  delete_buyer: async (client, { buyerId }) => {
+    const buyer = await client.buyers.getBuyer(buyerId)
+    return {
+      target: label("buyer organization", buyerId, buyer.Name),
+      losses: await Promise.all([
+        count(client.addresses.listAddresses(buyerId, { pageSize: 1 }), "addresses"),
+        count(client.catalogs.listCatalogAssignments({ filters: { BuyerID: buyerId }, pageSize: 1 }), "catalog assignments"),
+        count(client.products.listProductAssignments({ filters: { BuyerID: buyerId }, pageSize: 1 }), "product assignments"),
+      ]),
+    }
+  },
+
+  delete_supplier: async (client, { supplierId }) => {
+    const supplier = await client.suppliers.getSupplier(supplierId)
+    return {
+      target: label("supplier", supplierId, supplier.Name),
+      losses: await Promise.all([
+        count(client.suppliers.listSupplierBuyers(supplierId, { pageSize: 1 }), "buyer relationships"),
+        count(client.products.listProducts({ supplierID: supplierId, pageSize: 1 }), "products it sells"),
+      ]),
+    }
+  },
+
+  delete_price_schedule: async (client, { priceScheduleId }) => {
+    const priceSchedule = await client.priceSchedules.getPriceSchedule(priceScheduleId)
+    return {
+      target: label("price schedule", priceScheduleId, priceSchedule.Name),
+      losses: [`${priceSchedule.PriceBreaks?.length ?? 0} price breaks`],
+    }
+  },
+
+  delete_promotion: async (client, { promotionId }) => {
+    const promotion = await client.promotions.getPromotion(promotionId)
+    return {
+      target: label("promotion", promotionId, promotion.Name),
+      losses: promotion.RedemptionCount ? [`its history of ${promotion.RedemptionCount} redemptions`] : [],
+    }
+  },
+
+  delete_address: async (client, { buyerId, addressId }) => {
+    const address = await client.addresses.getAddress(buyerId, addressId)
+    return {
+      target: label("address", addressId, address.AddressName),
+      losses: [
+        await count(client.addresses.listAddressAssignments(buyerId, { filters: { AddressID: addressId }, pageSize: 1 }), "assignments"),
+      ],
+    }
+  },
+
+  delete_line_item: async (client, { direction = "Incoming", orderId, lineItemId }) => {
+    const lineItem = await client.lineItems.getLineItem(direction, orderId, lineItemId)
+    return {
+      target: `line item ${lineItemId} (${lineItem.Quantity} x ${lineItem.ProductID}) on order ${orderId}`,
+      losses: [],
+    }
+  },
+
+  delete_payment: async (client, { direction = "Incoming", orderId, paymentId }) => {
+    const payment = await client.payments.getPayment(direction, orderId, paymentId)
+    return {
+      target: `${payment.Type} payment ${paymentId} of ${payment.Amount ?? "the order total"} on order ${orderId}`,
+      losses: payment.Transactions?.length ? [`${payment.Transactions.length} transactions`] : [],
+    }
+  },
+
+  delete_shipment: async (client, { shipmentId }) => {
+    const shipment = await client.shipments.getShipment(shipmentId)
+    return {
+      target: shipment.TrackingNumber ? `shipment ${shipmentId} (tracking ${shipment.TrackingNumber})` : `shipment ${shipmentId}`,
+      losses: [await count(client.shipments.listShipmentItems(shipmentId, { pageSize: 1 }), "shipped line items")],
+    }
+  },
+
+  delete_user: async (client, { buyerId, userId }) => {
+    const user = await client.users.getUser(buyerId, userId)
+    return {
+      target: label("user", userId, user.Email ? `${user.Username} <${user.Email}>` : user.Username),
+      losses: [],
+    }
+  },
+
+  delete_user_group: async (client, { buyerId, userGroupId }) => {
+    const userGroup = await client.userGroups.getUserGroup(buyerId, userGroupId)
+    return {
+      target: label("user group", userGroupId, userGroup.Name),
+      losses: await Promise.all([
+        count(client.userGroups.listUserGroupAssignments(buyerId, { userGroupID: userGroupId, pageSize: 1 }), "memberships"),
+        count(client.catalogs.listCatalogAssignments({ filters: { UserGroupID: userGroupId }, pageSize: 1 }), "catalog assignments"),
+        count(client.products.listProductAssignments({ filters: { UserGroupID: userGroupId }, pageSize: 1 }), "product assignments"),
+        count(client.addresses.listAddressAssignments(buyerId, { filters: { UserGroupID: userGroupId }, pageSize: 1 }), "address assignments"),
+      ]),
+    }
+  },
+
+  delete_admin_user: async (client, { userId }) => {
+    const user = await client.adminUsers.getAdminUser(userId)
+    return {
+      target: label("admin user", userId, user.Email ? `${user.Username} <${user.Email}>` : user.Username),
+      losses: [],
+    }
+  },
+
+  delete_supplier_user: async (client, { supplierId, userId }) => {
+    const user = await client.supplierUsers.getSupplierUser(supplierId, userId)
+    return {
+      target: label("supplier user", userId, user.Email ? `${user.Username} <${user.Email}>` : user.Username),
+      losses: [],
+    }
+  },
+
+  delete_supplier_user_group: async (client, { supplierId, userGroupId }) => {
+    const userGroup = await client.supplierUserGroups.getUserGroup(supplierId, userGroupId)
+    return {
+      target: label("supplier user group", userGroupId, userGroup.Name),
+      losses: [
+        await count(
+          client.supplierUserGroups.listUserGroupAssignments(supplierId, { userGroupID: userGroupId, pageSize: 1 }),
+          "memberships",
+        ),
+      ],
+    }
+  },
+}
+
+/**
+ * Summarize what a delete tool call would remove. Tools without a dedicated
+ * summary (assignments, price breaks...) are described by their arguments.
+ */
+export async function summarizeDeletion(orderCloudClient: OrderCloudClient, tool: string, args: Record<string, any>): Promise<DeleteSummary> {
+  const summarizer = SUMMARIZERS[tool]
+  const fallback = {
+    target: `${tool.replace(/^(delete|remove)_/, "").replace(/_/g, " ")} ${Object.values(args).join(" / ")}`,
+    losses: [],
+  }
+  if (!summarizer) return fallback
+
+  try {
+    return await summarizer(orderCloudClient, args)
+  } catch {
+    // the resource itself couldn't be read; the delete will report why
+    return fallback
+  }
+}
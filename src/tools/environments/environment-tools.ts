@@ -0,0 +1,69 @@
+import { z } from "zod"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import OrderCloudClient from "../ordercloud-client.js"
+import { clientOptions, type EnvironmentConfig } from "../../config/environments.js"
+import { toolError } from "../utils/tool-error.js"
+
+export function registerEnvironmentTools(server: McpServer, orderCloudClient: OrderCloudClient, environments: EnvironmentConfig) {
+
+  // Tool: List Environments
+  server.registerTool(
+    "list_environments",
+    {
+      title: "List Environments",
+      description:
+        "List the configured OrderCloud marketplaces (sandbox, staging, production...), which one is active and which can't be switched to for lack of credentials",
+      inputSchema: {},
+    },
+    async () => {
+      const active = orderCloudClient.getEnvironment().name
+      const result = Object.values(environments.profiles).map((profile) => ({
+        name: profile.name,
+        description: profile.description,
+        baseURL: profile.baseURL,
+        clientId: profile.clientId,
+        grantType: profile.grantType,
+        scope: profile.scope,
+        available: !profile.unavailable,
+        ...(profile.unavailable && { unavailable: profile.unavailable }),
+        default: profile.name === environments.defaultEnvironment,
+        active: profile.name === active,
+      }))
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      }
+    },
+  )
+
+  // Tool: Switch Environment
+  server.registerTool(
+    "switch_environment",
+    {
+      title: "Switch Environment",
+      description:
+        "Switch every tool to another configured OrderCloud marketplace. Rebuilds all clients, re-authenticates with that environment's credentials and ends any impersonation.",
+      inputSchema: {
+        name: z.string().describe("Environment name as shown by list_environments"),
+      },
+    },
+    async ({ name }) => {
+      const profile = environments.profiles[name]
+      if (!profile) {
+        return toolError(`Unknown environment "${name}"`, `available environments are ${Object.keys(environments.profiles).join(", ")}`)
+      }
+      if (profile.unavailable) {
+        return toolError(`Environment "${name}" can't be used`, profile.unavailable)
+      }
+
+      try {
+        await orderCloudClient.switchEnvironment(clientOptions(profile))
+        return {
+          content: [{ type: "text", text: `Switched to environment ${profile.name} (${profile.baseURL})` }],
+        }
+      } catch (error) {
+        return toolError(`Switched to environment ${profile.name}, but authentication failed`, error)
+      }
+    },
+  )
+}
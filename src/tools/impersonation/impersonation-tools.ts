@@ -0,0 +1,294 @@
+import { z } from "zod"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import OrderCloudClient from "../ordercloud-client.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
+
+export function registerImpersonationTools(server: McpServer, orderCloudClient: OrderCloudClient) {
+
+  // Tool: Impersonate User
+  server.registerTool(
+    "impersonate_user",
+    {
+      title: "Impersonate Buyer User",
+      description:
+        "Get an impersonation token for a buyer user so the Me tools (list_me_products, list_me_catalogs, list_me_addresses, list_me_orders) run as that user. Admin tools keep using the admin token.",
+      inputSchema: {
+        buyerId: z.string().describe("Buyer organization the user belongs to"),
+        userId: z.string().describe("ID of the buyer user to impersonate"),
+        clientId: z.string().optional().describe("Buyer API client ID; defaults to the configured client ID"),
+        roles: z.array(z.string()).optional().default(["Shopper"]).describe("Roles to grant the impersonation token"),
+      },
+    },
+    async ({ buyerId, userId, clientId, roles }) => {
+      try {
+        const session = await orderCloudClient.impersonate(buyerId, userId, { clientId, roles })
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Now impersonating user ${userId} of buyer ${buyerId}. Me tools run as this user until stop_impersonation is called.\n${JSON.stringify(session, null, 2)}`,
+            },
+          ],
+        }
+      } catch (error) {
+        return toolError("Error impersonating user", error)
+      }
+    },
+  )
+
+  // Tool: Stop Impersonation
+  server.registerTool(
+    "stop_impersonation",
+    {
+      title: "Stop Impersonation",
+      description: "Drop the impersonation token and go back to the admin token only",
+      inputSchema: {},
+    },
+    async () => {
+      const session = orderCloudClient.stopImpersonation()
+      return {
+        content: [
+          {
+            type: "text",
+            text: session
+              ? `Stopped impersonating user ${session.userId} of buyer ${session.buyerId}`
+              : "No impersonation was active",
+          },
+        ],
+      }
+    },
+  )
+
+  // Tool: Get Me
+  server.registerTool(
+    "get_me",
+    {
+      title: "Get Me (Impersonated User)",
+      description: "Retrieve the user currently being impersonated",
+      inputSchema: {},
+    },
+    async () => {
+      try {
+        const result = await orderCloudClient.me.getMe()
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        }
+      } catch (error) {
+        return toolError("Error getting impersonated user", error)
+      }
+    },
+  )
+
+  // Tool: List Me Products
+  server.registerTool(
+    "list_me_products",
+    {
+      title: "List Me Products",
+      description: "List the products the impersonated buyer user can see and purchase",
+      inputSchema: {
+        page: z.number().optional().default(1),
+        pageSize: z.number().optional().default(20),
+        catalogID: z.string().optional(),
+        categoryID: z.string().optional(),
+        depth: z.string().optional().describe("Category depth to include, e.g. 'all'"),
+        search: z.string().optional(),
+        searchOn: z
+          .array(z.enum(["ID", "ParentID", "Name", "Description"]))
+          .optional(),
+        searchType: z
+          .enum([
+            "AnyTerm",
+            "AllTermsAnyField",
+            "AllTermsSameField",
+            "ExactPhrase",
+            "ExactPhrasePrefix",
+          ])
+          .optional(),
+        sortBy: z
+          .array(z.enum(["Name", "ID", "ParentID", "!Name", "!ID", "!ParentID"]))
+          .optional(),
+        ...filterInputs,
+        ...pagingInputs,
+      },
+    },
+    async ({ allPages, maxItems, ...input }) => {
+      try {
+        const result = allPages
+          ? await orderCloudClient.me.listAll(
+              (page) => orderCloudClient.me.listMeProducts({ ...input, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.me.listMeProducts(input)
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        }
+      } catch (error) {
+        return toolError("Error listing me products", error)
+      }
+    },
+  )
+
+  // Tool: Get Me Product
+  server.registerTool(
+    "get_me_product",
+    {
+      title: "Get Me Product",
+      description: "Retrieve a product as the impersonated buyer user sees it, including its price schedule",
+      inputSchema: {
+        productId: z.string(),
+      },
+    },
+    async ({ productId }) => {
+      try {
+        const result = await orderCloudClient.me.getMeProduct(productId)
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        }
+      } catch (error) {
+        return toolError("Error getting me product", error)
+      }
+    },
+  )
+
+  // Tool: List Me Catalogs
+  server.registerTool(
+    "list_me_catalogs",
+    {
+      title: "List Me Catalogs",
+      description: "List the catalogs visible to the impersonated buyer user",
+      inputSchema: {
+        page: z.number().optional().default(1),
+        pageSize: z.number().optional().default(20),
+        search: z.string().optional(),
+        searchOn: z
+          .array(z.enum(["ID", "Name", "Description"]))
+          .optional(),
+        sortBy: z
+          .array(z.enum(["Name", "ID", "!Name", "!ID"]))
+          .optional(),
+        ...filterInputs,
+        ...pagingInputs,
+      },
+    },
+    async ({ allPages, maxItems, ...input }) => {
+      try {
+        const result = allPages
+          ? await orderCloudClient.me.listAll(
+              (page) => orderCloudClient.me.listMeCatalogs({ ...input, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.me.listMeCatalogs(input)
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        }
+      } catch (error) {
+        return toolError("Error listing me catalogs", error)
+      }
+    },
+  )
+
+  // Tool: List Me Addresses
+  server.registerTool(
+    "list_me_addresses",
+    {
+      title: "List Me Addresses",
+      description: "List the addresses available to the impersonated buyer user",
+      inputSchema: {
+        page: z.number().optional().default(1),
+        pageSize: z.number().optional().default(20),
+        search: z.string().optional(),
+        searchOn: z
+          .array(z.enum(["ID", "AddressName", "CompanyName", "FirstName", "LastName", "City", "State", "Zip", "Country"]))
+          .optional(),
+        sortBy: z
+          .array(
+            z.enum([
+              "AddressName",
+              "CompanyName",
+              "City",
+              "State",
+              "Zip",
+              "Country",
+              "!AddressName",
+              "!CompanyName",
+              "!City",
+              "!State",
+              "!Zip",
+              "!Country",
+            ])
+          )
+          .optional(),
+        ...filterInputs,
+        ...pagingInputs,
+      },
+    },
+    async ({ allPages, maxItems, ...input }) => {
+      try {
+        const result = allPages
+          ? await orderCloudClient.me.listAll(
+              (page) => orderCloudClient.me.listMeAddresses({ ...input, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.me.listMeAddresses(input)
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        }
+      } catch (error) {
+        return toolError("Error listing me addresses", error)
+      }
+    },
+  )
+
+  // Tool: List Me Orders
+  server.registerTool(
+    "list_me_orders",
+    {
+      title: "List Me Orders",
+      description: "List the orders placed by the impersonated buyer user",
+      inputSchema: {
+        page: z.number().optional().default(1),
+        pageSize: z.number().optional().default(20),
+        from: z.string().optional().describe("Lower bound of DateSubmitted (ISO date)"),
+        to: z.string().optional().describe("Upper bound of DateSubmitted (ISO date)"),
+        search: z.string().optional(),
+        searchOn: z
+          .array(z.enum(["ID", "Comments"]))
+          .optional(),
+        sortBy: z
+          .array(
+            z.enum([
+              "DateCreated",
+              "DateSubmitted",
+              "Status",
+              "Total",
+              "ID",
+              "!DateCreated",
+              "!DateSubmitted",
+              "!Status",
+              "!Total",
+              "!ID",
+            ])
+          )
+          .optional(),
+        ...filterInputs,
+        ...pagingInputs,
+      },
+    },
+    async ({ allPages, maxItems, ...input }) => {
+      try {
+        const result = allPages
+          ? await orderCloudClient.me.listAll(
+              (page) => orderCloudClient.me.listMeOrders({ ...input, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.me.listMeOrders(input)
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        }
+      } catch (error) {
+        return toolError("Error listing me orders", error)
+      }
+    },
+  )
+}
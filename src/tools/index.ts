@@ -9,17 +9,79 @@ import { registerBuyerTools } from "./buyers/buyers-tools.js"
 import { registerSupplierTools } from "./suppliers/suppliers-tools.js"
 import { registerPriceScheduleTools } from "./price-schedules/price-schedules-tools.js"
 import { registerAddressTools } from "./addresses/addresses-tools.js"
+import { registerOrderTools } from "./orders/orders-tools.js"
+import { registerLineItemTools } from "./line-items/line-items-tools.js"
+import { registerPaymentTools } from "./payments/payments-tools.js"
+import { registerShipmentTools } from "./shipments/shipments-tools.js"
+import { registerUserTools } from "./users/users-tools.js"
+import { registerUserGroupTools } from "./user-groups/user-groups-tools.js"
+import { registerAdminUserTools } from "./admin-users/admin-users-tools.js"
+import { registerSupplierUserTools } from "./supplier-users/supplier-users-tools.js"
 import { registerDebugTools } from "./debug/debug-tools.js"
+import { registerImpersonationTools } from "./impersonation/impersonation-tools.js"
+import { registerEnvironmentTools } from "./environments/environment-tools.js"
+import { withToolPolicy, type RoleFilterMode, type Toolset } from "./tool-policy.js"
+import { decodeAccessToken, getTokenRoles } from "./utils/jwt.js"
+import type { EnvironmentConfig } from "../config/environments.js"
+import { isToolsetEnabled, type ToolsetConfig } from "../config/toolsets.js"
+import { createDeleteConfirmation } from "./delete-confirmation.js"
 
-export function registerAllTools(server: McpServer, orderCloudClient: OrderCloudClient) {
-  registerAuthTools(server, orderCloudClient)
-  registerCatalogTools(server, orderCloudClient)
-  registerProductTools(server, orderCloudClient)
-  registerCategoryTools(server, orderCloudClient)
-  registerPromotionTools(server, orderCloudClient)
-  registerBuyerTools(server, orderCloudClient)
-  registerSupplierTools(server, orderCloudClient)
-  registerPriceScheduleTools(server, orderCloudClient)
-  registerAddressTools(server, orderCloudClient)
-  registerDebugTools(server, orderCloudClient)
+export interface RegisterToolsOptions {
+  // skip or flag tools the current token lacks the OrderCloud roles for
+  roleFilter?: RoleFilterMode
+  // profiles offered by list_environments/switch_environment
+  environments?: EnvironmentConfig
+  // toolsets to register, read-only, plan mode and delete confirmation; everything is registered when unset
+  toolsets?: ToolsetConfig
+}
+
+export function registerAllTools(server: McpServer, orderCloudClient: OrderCloudClient, options: RegisterToolsOptions = {}) {
+  const policy = {
+    roleFilter: options.roleFilter,
+    grantedRoles: () => grantedRoles(orderCloudClient),
+    onSignIn: (listener: () => void) => orderCloudClient.onSignIn(listener),
+    environment: () => orderCloudClient.getEnvironment(),
+    readOnly: options.toolsets?.readOnly,
+    planMode: options.toolsets?.planMode,
+    confirmDelete: options.toolsets?.confirmDeletes !== false ? createDeleteConfirmation(server, orderCloudClient) : undefined,
+  }
+  const enabled = (toolset: Toolset) => !options.toolsets || isToolsetEnabled(toolset, options.toolsets)
+
+  if (enabled("auth")) registerAuthTools(withToolPolicy(server, "auth", policy), orderCloudClient)
+  if (options.environments && enabled("environments")) {
+    registerEnvironmentTools(withToolPolicy(server, "environments", policy), orderCloudClient, options.environments)
+  }
+  if (enabled("catalogs")) registerCatalogTools(withToolPolicy(server, "catalogs", policy), orderCloudClient)
+  if (enabled("products")) registerProductTools(withToolPolicy(server, "products", policy), orderCloudClient)
+  if (enabled("categories")) registerCategoryTools(withToolPolicy(server, "categories", policy), orderCloudClient)
+  if (enabled("promotions")) registerPromotionTools(withToolPolicy(server, "promotions", policy), orderCloudClient)
+  if (enabled("buyers")) registerBuyerTools(withToolPolicy(server, "buyers", policy), orderCloudClient)
+  if (enabled("suppliers")) registerSupplierTools(withToolPolicy(server, "suppliers", policy), orderCloudClient)
+  if (enabled("priceSchedules")) registerPriceScheduleTools(withToolPolicy(server, "priceSchedules", policy), orderCloudClient)
+  if (enabled("addresses")) registerAddressTools(withToolPolicy(server, "addresses", policy), orderCloudClient)
+  if (enabled("orders")) {
+    registerOrderTools(withToolPolicy(server, "orders", policy), orderCloudClient)
+    registerLineItemTools(withToolPolicy(server, "orders", policy), orderCloudClient)
+  }
+  if (enabled("payments")) registerPaymentTools(withToolPolicy(server, "payments", policy), orderCloudClient)
+  if (enabled("shipments")) registerShipmentTools(withToolPolicy(server, "shipments", policy), orderCloudClient)
+  if (enabled("users")) registerUserTools(withToolPolicy(server, "users", policy), orderCloudClient)
+  if (enabled("userGroups")) registerUserGroupTools(withToolPolicy(server, "userGroups", policy), orderCloudClient, "buyers")
+  if (enabled("adminUsers")) registerAdminUserTools(withToolPolicy(server, "adminUsers", policy), orderCloudClient)
+  if (enabled("supplierUsers")) registerSupplierUserTools(withToolPolicy(server, "supplierUsers", policy), orderCloudClient)
+  if (enabled("supplierUserGroups")) registerUserGroupTools(withToolPolicy(server, "supplierUserGroups", policy), orderCloudClient, "suppliers")
+  if (enabled("impersonation")) registerImpersonationTools(withToolPolicy(server, "impersonation", policy), orderCloudClient)
+  if (enabled("debug")) registerDebugTools(withToolPolicy(server, "debug", policy), orderCloudClient)
+}
+
+// Roles of the admin token, or undefined when there is no readable token yet
+export function grantedRoles(orderCloudClient: OrderCloudClient): string[] | undefined {
+  const token = orderCloudClient.getAccessToken()
+  if (!token) return undefined
+
+  try {
+    return getTokenRoles(decodeAccessToken(token))
+  } catch {
+    return undefined
+  }
 }
\ No newline at end of file
@@ -0,0 +1,273 @@
+import { z } from "zod"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import OrderCloudClient from "../ordercloud-client.js"
+import { orderDirection } from "../orders/orders-tools.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
+import type { LineItem, LineItemSpec } from "../../types/types.js"
+
+const specsInput = z
+  .array(
+    z.object({
+      specId: z.string(),
+      optionId: z.string().optional(),
+      value: z.string().optional().describe("Free-text value, for specs that allow one"),
+    }),
+  )
+  .optional()
+  .describe("Spec options for the line item; these override the ones taken from variantId")
+
+const lineItemInputs = {
+  variantId: z.string().optional().describe("Product variant to order; its spec options are filled in for you"),
+  specs: specsInput,
+  unitPrice: z.number().optional().describe("Override the computed price; needs the OverrideUnitPrice role"),
+  shippingAddressId: z.string().optional(),
+  shipFromAddressId: z.string().optional(),
+  dateNeeded: z.string().optional(),
+  costCenter: z.string().optional(),
+  xp: z.record(z.any()).optional(),
+}
+
+// Lead with the prices OrderCloud worked out, since they are easy to miss in the full line item
+function lineItemResult(lineItem: LineItem) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: `Line item ${lineItem.ID}: ${lineItem.Quantity} x ${lineItem.ProductID} at UnitPrice ${lineItem.UnitPrice ?? "?"}, LineTotal ${lineItem.LineTotal ?? "?"}`,
+      },
+      {
+        type: "text" as const,
+        text: JSON.stringify(lineItem, null, 2),
+      },
+    ],
+  }
+}
+
+export function registerLineItemTools(server: McpServer, orderCloudClient: OrderCloudClient) {
+  // Spec options for a line item: the variant's, then explicit ones replacing any for the same spec
+  const resolveSpecs = async (
+    productId: string | undefined,
+    variantId: string | undefined,
+    specs: z.infer<typeof specsInput>,
+  ): Promise<LineItemSpec[] | undefined> => {
+    if (!variantId && !specs) return undefined
+
+    const bySpec = new Map<string, LineItemSpec>()
+    if (variantId) {
+      if (!productId) throw new Error("variantId needs the productId the variant belongs to")
+      const variant = await orderCloudClient.products.getProductVariant(productId, variantId)
+      for (const spec of variant.Specs ?? []) {
+        bySpec.set(spec.SpecID, { SpecID: spec.SpecID, OptionID: spec.OptionID })
+      }
+    }
+    for (const spec of specs ?? []) {
+      bySpec.set(spec.specId, {
+        SpecID: spec.specId,
+        ...(spec.optionId && { OptionID: spec.optionId }),
+        ...(spec.value !== undefined && { Value: spec.value }),
+      })
+    }
+    return [...bySpec.values()]
+  }
+
+  const toLineItem = async (input: {
+    productId?: string
+    quantity?: number
+  } & Partial<{ [K in keyof typeof lineItemInputs]: z.infer<(typeof lineItemInputs)[K]> }>): Promise<Partial<LineItem>> => {
+    const specs = await resolveSpecs(input.productId, input.variantId, input.specs)
+    return {
+      ...(input.productId && { ProductID: input.productId }),
+      ...(input.quantity !== undefined && { Quantity: input.quantity }),
+      ...(specs && { Specs: specs }),
+      ...(input.unitPrice !== undefined && { UnitPrice: input.unitPrice }),
+      ...(input.shippingAddressId && { ShippingAddressID: input.shippingAddressId }),
+      ...(input.shipFromAddressId && { ShipFromAddressID: input.shipFromAddressId }),
+      ...(input.dateNeeded && { DateNeeded: input.dateNeeded }),
+      ...(input.costCenter && { CostCenter: input.costCenter }),
+      ...(input.xp && { xp: input.xp }),
+    }
+  }
+
+// Tool: List Line Items
+server.registerTool(
+  "list_line_items",
+  {
+    title: "List Line Items",
+    description: "Retrieve the line items of an order, with their specs, variant and computed UnitPrice and LineTotal",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+      page: z.number().optional().default(1),
+      pageSize: z.number().optional().default(20),
+      search: z.string().optional(),
+      searchOn: z
+        .array(z.enum(["ID", "ProductID"]))
+        .optional(),
+      sortBy: z
+        .array(
+          z.enum([
+            "ID",
+            "ProductID",
+            "DateAdded",
+            "!ID",
+            "!ProductID",
+            "!DateAdded"
+          ])
+        )
+        .optional(),
+      ...filterInputs,
+      ...pagingInputs,
+    },
+  },
+  async ({ allPages, maxItems, direction, orderId, ...input }) => {
+    try {
+      const result = allPages
+        ? await orderCloudClient.lineItems.listAll(
+            (page) => orderCloudClient.lineItems.listLineItems(direction, orderId, { ...input, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.lineItems.listLineItems(direction, orderId, input)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error listing line items", error)
+    }
+  }
+)
+
+// Tool: Get Line Item by ID
+server.registerTool(
+  "get_line_item",
+  {
+    title: "Get Line Item",
+    description: "Retrieve a specific line item of an order, with its computed UnitPrice and LineTotal",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+      lineItemId: z.string(),
+    },
+  },
+  async ({ direction, orderId, lineItemId }) => {
+    try {
+      return lineItemResult(await orderCloudClient.lineItems.getLineItem(direction, orderId, lineItemId))
+    } catch (error) {
+      return toolError("Error getting line item", error)
+    }
+  },
+)
+
+// Tool: Create Line Item
+server.registerTool(
+  "create_line_item",
+  {
+    title: "Create Line Item",
+    description: "Add a product to an unsubmitted order, choosing a variant or spec options; OrderCloud computes the price",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+      id: z.string().optional(),
+      productId: z.string(),
+      quantity: z.number().int().positive(),
+      ...lineItemInputs,
+    },
+  },
+  async ({ direction, orderId, id, ...input }) => {
+    try {
+      const lineItem = { ...(id && { ID: id }), ...(await toLineItem(input)) } as LineItem
+      return lineItemResult(await orderCloudClient.lineItems.createLineItem(direction, orderId, lineItem))
+    } catch (error) {
+      return toolError("Error creating line item", error)
+    }
+  },
+)
+
+// Tool: Update Line Item (Full Update)
+server.registerTool(
+  "update_line_item",
+  {
+    title: "Update Line Item",
+    description: "Replace a line item on an order (full update - PUT); fields left out are cleared",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+      lineItemId: z.string(),
+      productId: z.string(),
+      quantity: z.number().int().positive(),
+      ...lineItemInputs,
+    },
+  },
+  async ({ direction, orderId, lineItemId, ...input }) => {
+    try {
+      const lineItem = { ID: lineItemId, ...(await toLineItem(input)) } as LineItem
+      return lineItemResult(await orderCloudClient.lineItems.updateLineItem(direction, orderId, lineItemId, lineItem))
+    } catch (error) {
+      return toolError("Error updating line item", error)
+    }
+  },
+)
+
+// Tool: Patch Line Item (Partial Update)
+server.registerTool(
+  "patch_line_item",
+  {
+    title: "Patch Line Item",
+    description: "Partially update a line item on an order (PATCH), e.g. change its quantity or spec options",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+      lineItemId: z.string(),
+      productId: z.string().optional().describe("Product the variantId belongs to; defaults to the line item's product"),
+      quantity: z.number().int().positive().optional(),
+      ...lineItemInputs,
+    },
+  },
+  async ({ direction, orderId, lineItemId, ...input }) => {
+    try {
+      // a new variant of the product already ordered needs no productId; read it from the line item
+      const productId =
+        input.productId ??
+        (input.variantId ? (await orderCloudClient.lineItems.getLineItem(direction, orderId, lineItemId)).ProductID : undefined)
+      const lineItem = await toLineItem({ ...input, productId })
+      return lineItemResult(await orderCloudClient.lineItems.patchLineItem(direction, orderId, lineItemId, lineItem))
+    } catch (error) {
+      return toolError("Error patching line item", error)
+    }
+  },
+)
+
+// Tool: Delete Line Item
+server.registerTool(
+  "delete_line_item",
+  {
+    title: "Delete Line Item",
+    description: "Remove a line item from an order",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+      lineItemId: z.string(),
+    },
+  },
+  async ({ direction, orderId, lineItemId }) => {
+    try {
+      await orderCloudClient.lineItems.deleteLineItem(direction, orderId, lineItemId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Line item ${lineItemId} deleted successfully from order ${orderId}`,
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error deleting line item", error)
+    }
+  },
+)
+}
@@ -1,4 +1,4 @@
-import { AuthClient } from "./clients/auth-client.js"
+import { AuthClient, inferGrantType, type TokenRequestOptions } from "./clients/auth-client.js"
 import { CatalogClient } from "./clients/catalog-client.js"
 import { ProductClient } from "./clients/product-client.js"
 import { CategoryClient } from "./clients/categories-client.js"
@@ -7,80 +7,312 @@ import { BuyerClient } from "./clients/buyer-client.js"
 import { SupplierClient } from "./clients/supplier-client.js"
 import { PriceScheduleClient } from "./clients/price-schedule-client.js"
 import { AddressClient } from "./clients/address-client.js"
+import { MeClient } from "./clients/me-client.js"
+import { OrderClient } from "./clients/order-client.js"
+import { LineItemClient } from "./clients/line-item-client.js"
+import { PaymentClient } from "./clients/payment-client.js"
+import { ShipmentClient } from "./clients/shipment-client.js"
+import { UserClient } from "./clients/user-client.js"
+import { UserGroupClient } from "./clients/user-group-client.js"
+import { AdminUserClient } from "./clients/admin-user-client.js"
+import { SupplierUserClient } from "./clients/supplier-user-client.js"
+import { DebugLogger } from "./utils/debug.js"
+import type { RequestOptions } from "./clients/base-client.js"
+import { RequestLimiter, type RequestLimiterStats } from "./utils/request-limiter.js"
+import { ResponseCache } from "./utils/response-cache.js"
+import type { AuthResponse, GrantType, OrderCloudCredentials } from "../types/types.js"
 
 interface OrderCloudClientOptions {
-  username: string
-  password: string
+  // name of the marketplace environment these settings belong to
+  environment?: string
+  grantType?: GrantType
   clientId: string
+  clientSecret?: string
+  username?: string
+  password?: string
+  refreshToken?: string
   scope?: string
   baseURL?: string
+  // timeout and retry settings; kept from the previous environment when a switch leaves them out
+  requests?: RequestOptions
 }
 
+interface ImpersonationSession {
+  buyerId: string
+  userId: string
+  clientId: string
+  roles: string[]
+  startedAt: string
+}
+
+interface ActiveEnvironment {
+  name: string
+  baseURL: string
+}
+
+const DEFAULT_BASE_URL = "https://sandboxapi.ordercloud.io"
+
 class OrderCloudClient {
-  auth: AuthClient
-  catalogs: CatalogClient
-  products: ProductClient
-  categories: CategoryClient
-  promotions: PromotionClient
-  buyers: BuyerClient
-  suppliers: SupplierClient
-  priceSchedules: PriceScheduleClient
-  addresses: AddressClient
-
-  private username: string
-  private password: string
-  private clientId: string
-  private scope: string
+  // sub-clients are rebuilt whenever the environment changes, so always read them off this instance
+  auth!: AuthClient
+  catalogs!: CatalogClient
+  products!: ProductClient
+  categories!: CategoryClient
+  promotions!: PromotionClient
+  buyers!: BuyerClient
+  suppliers!: SupplierClient
+  priceSchedules!: PriceScheduleClient
+  addresses!: AddressClient
+  orders!: OrderClient
+  lineItems!: LineItemClient
+  payments!: PaymentClient
+  shipments!: ShipmentClient
+  users!: UserClient
+  userGroups!: UserGroupClient
+  adminUsers!: AdminUserClient
+  supplierUsers!: SupplierUserClient
+  supplierUserGroups!: UserGroupClient
+  // buyer-perspective client, only authenticated while impersonating
+  me!: MeClient
+
+  private credentials!: OrderCloudCredentials
+  private environment!: ActiveEnvironment
+  private requestOptions: RequestOptions = {}
+  private cache: ResponseCache | null = null
+  private refreshToken: string | null = null
+  private reauthPromise: Promise<string> | null = null
+  private impersonation: ImpersonationSession | null = null
+  private signInListeners: (() => void)[] = []
+
+  // settles once the initial authentication has finished, successfully or not
+  ready!: Promise<void>
 
   constructor(options: OrderCloudClientOptions) {
-    const { username, password, clientId, scope = "FullAccess", baseURL } = options
-
-    this.username = username
-    this.password = password
-    this.clientId = clientId
-    this.scope = scope
-
-    this.auth = new AuthClient(baseURL)
-    this.catalogs = new CatalogClient(baseURL)
-    this.products = new ProductClient(baseURL)
-    this.categories = new CategoryClient(baseURL)
-    this.promotions = new PromotionClient(baseURL)
-    this.buyers = new BuyerClient(baseURL)
-    this.suppliers = new SupplierClient(baseURL)
-    this.priceSchedules = new PriceScheduleClient(baseURL)
-    this.addresses = new AddressClient(baseURL)
+    this.connect(options)
+  }
+
+  // Point every sub-client at another marketplace and authenticate with its credentials
+  async switchEnvironment(options: OrderCloudClientOptions): Promise<void> {
+    DebugLogger.log("switchEnvironment", { from: this.environment, to: { name: options.environment, baseURL: options.baseURL } })
+    await this.connect(options)
+  }
+
+  getEnvironment(): ActiveEnvironment {
+    return this.environment
+  }
+
+  private connect(options: OrderCloudClientOptions): Promise<AuthResponse> {
+    const {
+      environment = "default",
+      grantType,
+      scope = "FullAccess",
+      baseURL = DEFAULT_BASE_URL,
+      requests = this.requestOptions,
+      ...credentials
+    } = options
+
+    this.environment = { name: environment, baseURL }
+    // every sub-client draws from the same limiter, including after a switch
+    this.requestOptions = { ...requests, limiter: requests.limiter ?? new RequestLimiter() }
+    this.credentials = { ...credentials, scope, grantType: grantType ?? inferGrantType(credentials) }
+    this.refreshToken = null
+    this.reauthPromise = null
+    this.impersonation = null
+
+    this.auth = new AuthClient(baseURL, this.requestOptions)
+    this.catalogs = new CatalogClient(baseURL, this.requestOptions)
+    this.products = new ProductClient(baseURL, this.requestOptions)
+    this.categories = new CategoryClient(baseURL, this.requestOptions)
+    this.promotions = new PromotionClient(baseURL, this.requestOptions)
+    this.buyers = new BuyerClient(baseURL, this.requestOptions)
+    this.suppliers = new SupplierClient(baseURL, this.requestOptions)
+    this.priceSchedules = new PriceScheduleClient(baseURL, this.requestOptions)
+    this.addresses = new AddressClient(baseURL, this.requestOptions)
+    this.orders = new OrderClient(baseURL, this.requestOptions)
+    this.lineItems = new LineItemClient(baseURL, this.requestOptions)
+    this.payments = new PaymentClient(baseURL, this.requestOptions)
+    this.shipments = new ShipmentClient(baseURL, this.requestOptions)
+    this.users = new UserClient(baseURL, this.requestOptions)
+    this.userGroups = new UserGroupClient(baseURL, this.requestOptions, "buyers")
+    this.adminUsers = new AdminUserClient(baseURL, this.requestOptions)
+    this.supplierUsers = new SupplierUserClient(baseURL, this.requestOptions)
+    this.supplierUserGroups = new UserGroupClient(baseURL, this.requestOptions, "suppliers")
+    this.me = new MeClient(baseURL, this.requestOptions)
+
+    const subClients = [
+      this.catalogs,
+      this.products,
+      this.categories,
+      this.promotions,
+      this.buyers,
+      this.suppliers,
+      this.priceSchedules,
+      this.addresses,
+      this.orders,
+      this.lineItems,
+      this.payments,
+      this.shipments,
+      this.users,
+      this.userGroups,
+      this.adminUsers,
+      this.supplierUsers,
+      this.supplierUserGroups,
+    ]
+
+    // a fresh cache per environment, shared by the admin and buyer-perspective clients
+    this.cache = this.requestOptions.cache ? new ResponseCache(this.requestOptions.cache) : null
+    subClients.forEach((client) => client.setResponseCache(this.cache))
+    this.me.setResponseCache(this.cache)
 
     // keep them in sync with same access token
-    const setToken = (token: string) => {
-      this.catalogs.setAccessToken(token)
-      this.products.setAccessToken(token)
-      this.categories.setAccessToken(token)
-      this.promotions.setAccessToken(token)
-      this.buyers.setAccessToken(token)
-      this.suppliers.setAccessToken(token)
-      this.priceSchedules.setAccessToken(token)
-      this.addresses.setAccessToken(token)
+    const setToken = (token: string, expiresIn?: number) => {
+      subClients.forEach((client) => client.setAccessToken(token, expiresIn))
     }
 
-    // patch auth client to propagate tokens
-    const originalAuth = this.auth.authenticate.bind(this.auth)
-    this.auth.authenticate = async (
-      username: string = this.username,
-      clientId: string = this.clientId,
-      password: string = this.password,
-      scope: string = this.scope
-    ) => {
-      const result = await originalAuth(username, clientId, password, scope)
-      setToken(result.access_token)
+    // patch auth client to propagate tokens from every grant
+    const auth = this.auth
+    const originalRequestToken = auth.requestToken.bind(auth)
+    auth.requestToken = async (credentials: OrderCloudCredentials, options: TokenRequestOptions = {}) => {
+      const result = await originalRequestToken(credentials, options)
+      // a token that arrives after a switch belongs to the old environment
+      if (this.auth !== auth) return result
+
+      // remember the credentials that worked so an expired token can be renewed with them,
+      // unless this was just a renewal on behalf of the grant already in use
+      if (!options.renewal) this.credentials = credentials
+      this.refreshToken = result.refresh_token ?? null
+      setToken(result.access_token, result.expires_in)
+      if (!options.renewal) this.signInListeners.forEach((listener) => listener())
       return result
     }
 
+    // renew expired or rejected tokens transparently
+    subClients.forEach((client) => client.setReauthenticator(() => this.reauthenticate()))
+
     // Auto-authenticate on construction
-    this.auth.authenticate(this.username, this.clientId, this.password, this.scope).catch((err) => {
-      console.error("Auto-authentication failed:", err.message)
+    const authentication = this.authenticate()
+    this.ready = authentication.then(
+      () => undefined,
+      (err) => {
+        console.error(`Auto-authentication failed for environment ${environment}:`, err.message)
+      },
+    )
+    return authentication
+  }
+
+  // Authenticate with the configured credentials, optionally overriding some of them
+  async authenticate(overrides: Partial<OrderCloudCredentials> = {}): Promise<AuthResponse> {
+    const { grantType, ...fields } = stripUndefined(overrides)
+    // another user may see different data
+    this.cache?.clear()
+    const suppliesSecrets = Boolean(fields.username || fields.password || fields.clientSecret || fields.refreshToken)
+
+    return this.auth.requestToken({
+      ...this.credentials,
+      ...fields,
+      grantType: grantType ?? (suppliesSecrets ? inferGrantType(fields) : this.credentials.grantType),
     })
   }
+
+  // Called after every sign-in with new credentials, when the token's roles may have changed
+  onSignIn(listener: () => void) {
+    this.signInListeners.push(listener)
+  }
+
+  getGrantType(): GrantType {
+    return this.credentials.grantType
+  }
+
+  // Admin token shared by the sub-clients
+  getAccessToken(): string | null {
+    return this.products.getAccessToken()
+  }
+
+  getBaseURL(): string | undefined {
+    return this.products.getBaseURL()
+  }
+
+  // Requests in flight and waiting across every sub-client
+  getRequestStats(): RequestLimiterStats {
+    return this.products.getLimiter().stats()
+  }
+
+  // GET response cache; null unless caching is turned on
+  getResponseCache(): ResponseCache | null {
+    return this.cache
+  }
+
+  getClientId(): string {
+    return this.credentials.clientId
+  }
+
+  // Run the Me client as a buyer user; admin sub-clients keep their own token
+  async impersonate(buyerId: string, userId: string, options: { clientId?: string; roles?: string[] } = {}): Promise<ImpersonationSession> {
+    const session: ImpersonationSession = {
+      buyerId,
+      userId,
+      clientId: options.clientId ?? this.credentials.clientId,
+      roles: options.roles ?? ["Shopper"],
+      startedAt: new Date().toISOString(),
+    }
+
+    const requestToken = async () => {
+      const token = await this.buyers.getUserAccessToken(buyerId, userId, { ClientID: session.clientId, Roles: session.roles })
+      this.me.setAccessToken(token.access_token, token.expires_in)
+      return token.access_token
+    }
+
+    await requestToken()
+    this.cache?.invalidateBuyerViews()
+    // impersonation tokens can't be refreshed, so ask for a new one when it runs out
+    this.me.setReauthenticator(requestToken)
+    this.impersonation = session
+
+    DebugLogger.log("impersonate", session)
+    return session
+  }
+
+  stopImpersonation(): ImpersonationSession | null {
+    const session = this.impersonation
+    this.me.clearAccessToken()
+    this.me.setReauthenticator(null)
+    this.impersonation = null
+    this.cache?.invalidateBuyerViews()
+
+    DebugLogger.log("stopImpersonation", session)
+    return session
+  }
+
+  getImpersonation(): ImpersonationSession | null {
+    return this.impersonation
+  }
+
+  // Share one in-flight authentication between every request that finds the token stale
+  private reauthenticate(): Promise<string> {
+    if (!this.reauthPromise) {
+      const { clientId, clientSecret } = this.credentials
+      DebugLogger.log("reauthenticate", { clientId, grantType: this.credentials.grantType, viaRefreshToken: this.refreshToken !== null })
+
+      const renewal = this.refreshToken
+        ? this.auth
+            .refresh(clientId, this.refreshToken, clientSecret, { renewal: true })
+            .catch(() => this.auth.requestToken(this.credentials, { renewal: true }))
+        : this.auth.requestToken(this.credentials, { renewal: true })
+
+      this.reauthPromise = renewal
+        .then((result) => result.access_token)
+        .finally(() => {
+          this.reauthPromise = null
+        })
+    }
+    return this.reauthPromise
+  }
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>
 }
 
 export { OrderCloudClient }
+export type { ImpersonationSession }
 export default OrderCloudClient
@@ -0,0 +1,255 @@
+import { z } from "zod"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import OrderCloudClient from "../ordercloud-client.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
+
+// Incoming orders were placed with this organization, outgoing ones by it
+export const orderDirection = z
+  .enum(["Incoming", "Outgoing", "All"])
+  .optional()
+  .default("Incoming")
+  .describe("Incoming: orders received by the marketplace owner or supplier; Outgoing: orders placed; All: both")
+
+export function registerOrderTools(server: McpServer, orderCloudClient: OrderCloudClient) {
+
+// Tool: List Orders
+server.registerTool(
+  "list_orders",
+  {
+    title: "List Orders",
+    description: "Retrieve a list of orders from OrderCloud with filtering by buyer, supplier, submitted date range and status",
+    inputSchema: {
+      direction: orderDirection,
+      page: z.number().optional().default(1),
+      pageSize: z.number().optional().default(20),
+      buyerID: z.string().optional(),
+      supplierID: z.string().optional(),
+      from: z.string().optional().describe("Only orders submitted on or after this ISO date"),
+      to: z.string().optional().describe("Only orders submitted on or before this ISO date"),
+      search: z.string().optional(),
+      searchOn: z
+        .array(z.enum(["ID", "FromUserID", "Comments"]))
+        .optional(),
+      sortBy: z
+        .array(
+          z.enum([
+            "ID",
+            "DateCreated",
+            "DateSubmitted",
+            "Total",
+            "Status",
+            "!ID",
+            "!DateCreated",
+            "!DateSubmitted",
+            "!Total",
+            "!Status"
+          ])
+        )
+        .optional(),
+      ...filterInputs,
+      ...pagingInputs,
+    },
+  },
+  async ({ allPages, maxItems, direction, ...input }) => {
+    try {
+      const result = allPages
+        ? await orderCloudClient.orders.listAll(
+            (page) => orderCloudClient.orders.listOrders(direction, { ...input, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.orders.listOrders(direction, input)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error listing orders", error)
+    }
+  }
+)
+
+// Tool: Get Order by ID
+server.registerTool(
+  "get_order",
+  {
+    title: "Get Order",
+    description: "Retrieve a specific order by ID from OrderCloud, with its status, totals and addresses",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+    },
+  },
+  async ({ direction, orderId }) => {
+    try {
+      const result = await orderCloudClient.orders.getOrder(direction, orderId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error getting order", error)
+    }
+  },
+)
+
+// Tool: Submit Order
+server.registerTool(
+  "submit_order",
+  {
+    title: "Submit Order",
+    description: "Submit an unsubmitted order; it goes to approval when an approval rule applies, otherwise it becomes Open",
+    inputSchema: {
+      direction: orderDirection.default("Outgoing"),
+      orderId: z.string(),
+    },
+  },
+  async ({ direction, orderId }) => {
+    try {
+      const result = await orderCloudClient.orders.submitOrder(direction, orderId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error submitting order", error)
+    }
+  },
+)
+
+// Tool: Approve Order
+server.registerTool(
+  "approve_order",
+  {
+    title: "Approve Order",
+    description: "Approve an order that is awaiting approval",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+      approvalRuleId: z.string().optional().describe("Rule being approved when several apply"),
+      comments: z.string().optional(),
+      allowResubmit: z.boolean().optional(),
+    },
+  },
+  async ({ direction, orderId, approvalRuleId, comments, allowResubmit }) => {
+    try {
+      const result = await orderCloudClient.orders.approveOrder(direction, orderId, {
+        ...(approvalRuleId && { ApprovalRuleID: approvalRuleId }),
+        ...(comments !== undefined && { Comments: comments }),
+        ...(allowResubmit !== undefined && { AllowResubmit: allowResubmit }),
+      })
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error approving order", error)
+    }
+  },
+)
+
+// Tool: Decline Order
+server.registerTool(
+  "decline_order",
+  {
+    title: "Decline Order",
+    description: "Decline an order that is awaiting approval",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+      comments: z.string().optional().describe("Reason shown to the buyer"),
+      allowResubmit: z.boolean().optional().describe("Let the buyer edit and submit the order again"),
+    },
+  },
+  async ({ direction, orderId, comments, allowResubmit }) => {
+    try {
+      const result = await orderCloudClient.orders.declineOrder(direction, orderId, {
+        ...(comments !== undefined && { Comments: comments }),
+        ...(allowResubmit !== undefined && { AllowResubmit: allowResubmit }),
+      })
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error declining order", error)
+    }
+  },
+)
+
+// Tool: Cancel Order
+server.registerTool(
+  "cancel_order",
+  {
+    title: "Cancel Order",
+    description: "Cancel an order that is open or awaiting approval",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+    },
+  },
+  async ({ direction, orderId }) => {
+    try {
+      const result = await orderCloudClient.orders.cancelOrder(direction, orderId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error canceling order", error)
+    }
+  },
+)
+
+// Tool: Complete Order
+server.registerTool(
+  "complete_order",
+  {
+    title: "Complete Order",
+    description: "Mark an open order as completed once it has been fulfilled",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+    },
+  },
+  async ({ direction, orderId }) => {
+    try {
+      const result = await orderCloudClient.orders.completeOrder(direction, orderId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error completing order", error)
+    }
+  },
+)
+}
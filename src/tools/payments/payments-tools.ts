@@ -0,0 +1,335 @@
+import { z } from "zod"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import OrderCloudClient from "../ordercloud-client.js"
+import { orderDirection } from "../orders/orders-tools.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
+import type { Order, Payment } from "../../types/types.js"
+
+const paymentType = z
+  .enum(["CreditCard", "SpendingAccount", "PurchaseOrder"])
+  .describe("CreditCard takes a creditCardId, SpendingAccount a spendingAccountId; PurchaseOrder needs neither")
+
+// Money is summed in cents so that 0.1 + 0.2 still settles an order of 0.3
+const toCents = (amount: number) => Math.round(amount * 100)
+
+// How far the accepted payments go towards the order total
+function summarizePayments(order: Order, payments: Payment[]) {
+  const total = toCents(order.Total ?? 0)
+  // a payment without an amount covers the whole order
+  const amountOf = (payment: Payment) => toCents(payment.Amount ?? order.Total ?? 0)
+
+  const byType: Record<string, number> = {}
+  let accepted = 0
+  let pending = 0
+  for (const payment of payments) {
+    const amount = amountOf(payment)
+    if (payment.Accepted) {
+      accepted += amount
+      byType[payment.Type] = (byType[payment.Type] ?? 0) + amount
+    } else {
+      pending += amount
+    }
+  }
+
+  return {
+    OrderID: order.ID,
+    Status: order.Status,
+    Total: total / 100,
+    AcceptedAmount: accepted / 100,
+    PendingAmount: pending / 100,
+    Balance: (total - accepted) / 100,
+    FullyPaid: accepted >= total,
+    AcceptedByType: Object.fromEntries(Object.entries(byType).map(([type, cents]) => [type, cents / 100])),
+    PaymentCount: payments.length,
+  }
+}
+
+export function registerPaymentTools(server: McpServer, orderCloudClient: OrderCloudClient) {
+
+// Tool: List Payments
+server.registerTool(
+  "list_payments",
+  {
+    title: "List Payments",
+    description: "Retrieve the payments applied to an order, with their type, amount, acceptance and transactions",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+      page: z.number().optional().default(1),
+      pageSize: z.number().optional().default(20),
+      search: z.string().optional(),
+      searchOn: z
+        .array(z.enum(["ID", "Description"]))
+        .optional(),
+      sortBy: z
+        .array(
+          z.enum([
+            "ID",
+            "DateCreated",
+            "Amount",
+            "!ID",
+            "!DateCreated",
+            "!Amount"
+          ])
+        )
+        .optional(),
+      ...filterInputs,
+      ...pagingInputs,
+    },
+  },
+  async ({ allPages, maxItems, direction, orderId, ...input }) => {
+    try {
+      const result = allPages
+        ? await orderCloudClient.payments.listAll(
+            (page) => orderCloudClient.payments.listPayments(direction, orderId, { ...input, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.payments.listPayments(direction, orderId, input)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error listing payments", error)
+    }
+  }
+)
+
+// Tool: Get Payment by ID
+server.registerTool(
+  "get_payment",
+  {
+    title: "Get Payment",
+    description: "Retrieve a specific payment of an order, with its transactions",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+      paymentId: z.string(),
+    },
+  },
+  async ({ direction, orderId, paymentId }) => {
+    try {
+      const result = await orderCloudClient.payments.getPayment(direction, orderId, paymentId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error getting payment", error)
+    }
+  },
+)
+
+// Tool: Get Order Payment Summary
+server.registerTool(
+  "get_order_payment_summary",
+  {
+    title: "Get Order Payment Summary",
+    description: "Check whether an order is fully paid: its total against the accepted and pending payment amounts, and the balance left",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+    },
+  },
+  async ({ direction, orderId }) => {
+    try {
+      const [order, payments] = await Promise.all([
+        orderCloudClient.orders.getOrder(direction, orderId),
+        orderCloudClient.payments.listAll((page) => orderCloudClient.payments.listPayments(direction, orderId, page)),
+      ])
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(summarizePayments(order, payments.Items), null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error summarizing order payments", error)
+    }
+  },
+)
+
+// Tool: Create Payment
+server.registerTool(
+  "create_payment",
+  {
+    title: "Create Payment",
+    description: "Apply a credit card, spending account or purchase order payment to an unsubmitted order",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+      id: z.string().optional(),
+      type: paymentType,
+      creditCardId: z.string().optional(),
+      spendingAccountId: z.string().optional(),
+      description: z.string().optional(),
+      amount: z.number().positive().optional().describe("Defaults to the order total"),
+      accepted: z.boolean().optional(),
+      xp: z.record(z.any()).optional(),
+    },
+  },
+  async ({ direction, orderId, ...input }) => {
+    try {
+      if (input.type === "CreditCard" && !input.creditCardId) {
+        throw new Error("CreditCard payments need a creditCardId")
+      }
+      if (input.type === "SpendingAccount" && !input.spendingAccountId) {
+        throw new Error("SpendingAccount payments need a spendingAccountId")
+      }
+      const payment: Payment = {
+        ...(input.id && { ID: input.id }),
+        Type: input.type,
+        ...(input.creditCardId && { CreditCardID: input.creditCardId }),
+        ...(input.spendingAccountId && { SpendingAccountID: input.spendingAccountId }),
+        ...(input.description !== undefined && { Description: input.description }),
+        ...(input.amount !== undefined && { Amount: input.amount }),
+        ...(input.accepted !== undefined && { Accepted: input.accepted }),
+        ...(input.xp && { xp: input.xp }),
+      }
+      const result = await orderCloudClient.payments.createPayment(direction, orderId, payment)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error creating payment", error)
+    }
+  },
+)
+
+// Tool: Patch Payment (Partial Update)
+server.registerTool(
+  "patch_payment",
+  {
+    title: "Patch Payment",
+    description: "Partially update a payment on an order (PATCH), e.g. mark it accepted or change its amount",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+      paymentId: z.string(),
+      creditCardId: z.string().optional(),
+      spendingAccountId: z.string().optional(),
+      description: z.string().optional(),
+      amount: z.number().positive().optional(),
+      accepted: z.boolean().optional(),
+      xp: z.record(z.any()).optional(),
+    },
+  },
+  async ({ direction, orderId, paymentId, ...input }) => {
+    try {
+      const payment: Partial<Payment> = {
+        ...(input.creditCardId && { CreditCardID: input.creditCardId }),
+        ...(input.spendingAccountId && { SpendingAccountID: input.spendingAccountId }),
+        ...(input.description !== undefined && { Description: input.description }),
+        ...(input.amount !== undefined && { Amount: input.amount }),
+        ...(input.accepted !== undefined && { Accepted: input.accepted }),
+        ...(input.xp && { xp: input.xp }),
+      }
+      const result = await orderCloudClient.payments.patchPayment(direction, orderId, paymentId, payment)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error patching payment", error)
+    }
+  },
+)
+
+// Tool: Delete Payment
+server.registerTool(
+  "delete_payment",
+  {
+    title: "Delete Payment",
+    description: "Remove a payment from an unsubmitted order",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+      paymentId: z.string(),
+    },
+  },
+  async ({ direction, orderId, paymentId }) => {
+    try {
+      await orderCloudClient.payments.deletePayment(direction, orderId, paymentId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Payment ${paymentId} deleted successfully from order ${orderId}`,
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error deleting payment", error)
+    }
+  },
+)
+
+// Tool: Create Payment Transaction
+server.registerTool(
+  "create_payment_transaction",
+  {
+    title: "Create Payment Transaction",
+    description: "Record an authorization, capture, refund or void against a payment, e.g. the result from a payment processor",
+    inputSchema: {
+      direction: orderDirection,
+      orderId: z.string(),
+      paymentId: z.string(),
+      id: z.string().optional(),
+      type: z.string().describe("What was attempted, e.g. CreditCardAuthorization, CreditCardCapture, CreditCardRefund"),
+      succeeded: z.boolean(),
+      amount: z.number().optional(),
+      currency: z.string().optional(),
+      dateExecuted: z.string().optional().describe("ISO date; defaults to now"),
+      resultCode: z.string().optional(),
+      resultMessage: z.string().optional(),
+      xp: z.record(z.any()).optional(),
+    },
+  },
+  async ({ direction, orderId, paymentId, ...input }) => {
+    try {
+      const transaction = {
+        ...(input.id && { ID: input.id }),
+        Type: input.type,
+        DateExecuted: input.dateExecuted ?? new Date().toISOString(),
+        Succeeded: input.succeeded,
+        ...(input.amount !== undefined && { Amount: input.amount }),
+        ...(input.currency && { Currency: input.currency }),
+        ...(input.resultCode && { ResultCode: input.resultCode }),
+        ...(input.resultMessage && { ResultMessage: input.resultMessage }),
+        ...(input.xp && { xp: input.xp }),
+      }
+      const result = await orderCloudClient.payments.createPaymentTransaction(direction, orderId, paymentId, transaction)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error creating payment transaction", error)
+    }
+  },
+)
+}
@@ -1,6 +1,8 @@
 import { z } from "zod"
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import OrderCloudClient from "../ordercloud-client.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
 
 export function registerPriceScheduleTools(server: McpServer, orderCloudClient: OrderCloudClient) {
 
@@ -27,12 +29,18 @@ server.registerTool(
           ])
         )
         .optional(),
-      filters: z.record(z.any()).optional(),
+      ...filterInputs,
+      ...pagingInputs,
     },
   },
-  async (input) => {
+  async ({ allPages, maxItems, ...input }) => {
     try {
-      const result = await orderCloudClient.priceSchedules.listPriceSchedules(input)
+      const result = allPages
+        ? await orderCloudClient.priceSchedules.listAll(
+            (page) => orderCloudClient.priceSchedules.listPriceSchedules({ ...input, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.priceSchedules.listPriceSchedules(input)
       return {
         content: [
           {
@@ -42,17 +50,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error listing price schedules: ${
-              error instanceof Error ? error.message : String(error)
-            }`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error listing price schedules", error)
     }
   }
 )
@@ -79,15 +77,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting price schedule: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error getting price schedule", error)
     }
   },
 )
@@ -139,15 +129,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error creating price schedule: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error creating price schedule", error)
     }
   },
 )
@@ -202,15 +184,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error updating price schedule: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error updating price schedule", error)
     }
   },
 )
@@ -265,15 +239,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error patching price schedule: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error patching price schedule", error)
     }
   },
 )
@@ -300,15 +266,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error deleting price schedule: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error deleting price schedule", error)
     }
   },
 )
@@ -344,15 +302,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error saving price break: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error saving price break", error)
     }
   },
 )
@@ -381,15 +331,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error deleting price break: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error deleting price break", error)
     }
   },
 )
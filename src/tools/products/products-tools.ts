@@ -1,6 +1,8 @@
 import { z } from "zod"
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import OrderCloudClient from "../ordercloud-client.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
 
 export function registerProductTools(server: McpServer, orderCloudClient: OrderCloudClient) {
 
@@ -29,15 +31,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting products: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error getting products", error)
     }
   },
 )
@@ -81,12 +75,18 @@ server.registerTool(
           ])
         )
         .optional(),
-      filters: z.record(z.any()).optional(),
+      ...filterInputs,
+      ...pagingInputs,
     },
   },
-  async (input) => {
+  async ({ allPages, maxItems, ...input }) => {
     try {
-      const result = await  orderCloudClient.products.listProducts(input)
+      const result = allPages
+        ? await orderCloudClient.products.listAll(
+            (page) => orderCloudClient.products.listProducts({ ...input, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.products.listProducts(input)
       return {
         content: [
           {
@@ -96,17 +96,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error listing products: ${
-              error instanceof Error ? error.message : String(error)
-            }`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error listing products", error)
     }
   }
 )
@@ -135,15 +125,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting product: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error getting product", error)
     }
   },
 )
@@ -215,15 +197,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error creating product: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error creating product", error)
     }
   },
 )
@@ -298,24 +272,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      // Enhanced error message with API response details
-      let errorMessage = `Error updating product: ${error instanceof Error ? error.message : String(error)}`
-      
-      if ((error as any)?.response?.data) {
-        const responseData = (error as any).response.data
-        if (typeof responseData === 'object') {
-          errorMessage += `\n\nAPI Response Details:\n${JSON.stringify(responseData, null, 2)}`
-        } else {
-          errorMessage += `\n\nAPI Response: ${responseData}`
-        }
-      }
-      
-      return {
-        content: [
-          { type: "text", text: errorMessage },
-        ],
-        isError: true,
-      }
+      return toolError("Error updating product", error)
     }
   },
 )
@@ -390,24 +347,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      // Enhanced error message with API response details
-      let errorMessage = `Error patching product: ${error instanceof Error ? error.message : String(error)}`
-      
-      if ((error as any)?.response?.data) {
-        const responseData = (error as any).response.data
-        if (typeof responseData === 'object') {
-          errorMessage += `\n\nAPI Response Details:\n${JSON.stringify(responseData, null, 2)}`
-        } else {
-          errorMessage += `\n\nAPI Response: ${responseData}`
-        }
-      }
-      
-      return {
-        content: [
-          { type: "text", text: errorMessage },
-        ],
-        isError: true,
-      }
+      return toolError("Error patching product", error)
     }
   },
 )
@@ -434,15 +374,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error deleting product: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error deleting product", error)
     }
   },
 )
@@ -475,12 +407,18 @@ server.registerTool(
             ])
           )
           .optional(),
-        filters: z.record(z.any()).optional(),
+        ...filterInputs,
+        ...pagingInputs,
       },
     },
-    async (input) => {
+    async ({ allPages, maxItems, ...input }) => {
       try {
-        const result = await orderCloudClient.products.listProductAssignments(input)
+        const result = allPages
+          ? await orderCloudClient.products.listAll(
+              (page) => orderCloudClient.products.listProductAssignments({ ...input, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.products.listProductAssignments(input)
         return {
           content: [
             {
@@ -490,17 +428,7 @@ server.registerTool(
           ],
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing product assignments: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
-            },
-          ],
-          isError: true,
-        }
+        return toolError("Error listing product assignments", error)
       }
     }
   )
@@ -531,10 +459,7 @@ server.registerTool(
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error saving product assignment: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error saving product assignment", error)
       }
     },
   )
@@ -557,10 +482,7 @@ server.registerTool(
           content: [{ type: "text", text: `Product assignment ${productId}/${buyerId} deleted successfully` }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error deleting product assignment: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error deleting product assignment", error)
       }
     },
   )
@@ -589,13 +511,19 @@ server.registerTool(
             ])
           )
           .optional(),
-        filters: z.record(z.any()).optional(),
+        ...filterInputs,
+        ...pagingInputs,
       },
     },
-    async (input) => {
+    async ({ allPages, maxItems, ...input }) => {
       try {
         const { productId, ...options } = input
-        const result = await orderCloudClient.products.listProductSpecs(productId, options)
+        const result = allPages
+          ? await orderCloudClient.products.listAll(
+              (page) => orderCloudClient.products.listProductSpecs(productId, { ...options, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.products.listProductSpecs(productId, options)
         return {
           content: [
             {
@@ -605,17 +533,7 @@ server.registerTool(
           ],
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing product specs: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
-            },
-          ],
-          isError: true,
-        }
+        return toolError("Error listing product specs", error)
       }
     }
   )
@@ -642,13 +560,19 @@ server.registerTool(
             ])
           )
           .optional(),
-        filters: z.record(z.any()).optional(),
+        ...filterInputs,
+        ...pagingInputs,
       },
     },
-    async (input) => {
+    async ({ allPages, maxItems, ...input }) => {
       try {
         const { productId, ...options } = input
-        const result = await orderCloudClient.products.listProductSuppliers(productId, options)
+        const result = allPages
+          ? await orderCloudClient.products.listAll(
+              (page) => orderCloudClient.products.listProductSuppliers(productId, { ...options, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.products.listProductSuppliers(productId, options)
         return {
           content: [
             {
@@ -658,17 +582,7 @@ server.registerTool(
           ],
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing product suppliers: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
-            },
-          ],
-          isError: true,
-        }
+        return toolError("Error listing product suppliers", error)
       }
     }
   )
@@ -703,10 +617,7 @@ server.registerTool(
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error saving product supplier: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error saving product supplier", error)
       }
     },
   )
@@ -729,10 +640,7 @@ server.registerTool(
           content: [{ type: "text", text: `Product supplier ${productId}/${supplierId} removed successfully` }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error removing product supplier: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error removing product supplier", error)
       }
     },
   )
@@ -761,13 +669,19 @@ server.registerTool(
             ])
           )
           .optional(),
-        filters: z.record(z.any()).optional(),
+        ...filterInputs,
+        ...pagingInputs,
       },
     },
-    async (input) => {
+    async ({ allPages, maxItems, ...input }) => {
       try {
         const { productId, ...options } = input
-        const result = await orderCloudClient.products.listProductVariants(productId, options)
+        const result = allPages
+          ? await orderCloudClient.products.listAll(
+              (page) => orderCloudClient.products.listProductVariants(productId, { ...options, ...page }),
+              { maxItems },
+            )
+          : await orderCloudClient.products.listProductVariants(productId, options)
         return {
           content: [
             {
@@ -777,17 +691,7 @@ server.registerTool(
           ],
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error listing product variants: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
-            },
-          ],
-          isError: true,
-        }
+        return toolError("Error listing product variants", error)
       }
     }
   )
@@ -810,10 +714,7 @@ server.registerTool(
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error getting product variant: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error getting product variant", error)
       }
     },
   )
@@ -867,10 +768,7 @@ server.registerTool(
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error saving product variant: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error saving product variant", error)
       }
     },
   )
@@ -925,10 +823,7 @@ server.registerTool(
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error patching product variant: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error patching product variant", error)
       }
     },
   )
@@ -951,10 +846,7 @@ server.registerTool(
           content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
         }
       } catch (error) {
-        return {
-          content: [{ type: "text", text: `Error generating product variants: ${error instanceof Error ? error.message : String(error)}` }],
-          isError: true,
-        }
+        return toolError("Error generating product variants", error)
       }
     },
   )
@@ -1,6 +1,8 @@
 import { z } from "zod"
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import OrderCloudClient from "../ordercloud-client.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
 
 export function registerPromotionTools(server: McpServer, orderCloudClient: OrderCloudClient) {
 
@@ -45,12 +47,18 @@ server.registerTool(
           ])
         )
         .optional(),
-      filters: z.record(z.any()).optional(),
+      ...filterInputs,
+      ...pagingInputs,
     },
   },
-  async (input) => {
+  async ({ allPages, maxItems, ...input }) => {
     try {
-      const result = await orderCloudClient.promotions.listPromotions(input)
+      const result = allPages
+        ? await orderCloudClient.promotions.listAll(
+            (page) => orderCloudClient.promotions.listPromotions({ ...input, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.promotions.listPromotions(input)
       return {
         content: [
           {
@@ -60,17 +68,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error listing promotions: ${
-              error instanceof Error ? error.message : String(error)
-            }`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error listing promotions", error)
     }
   }
 )
@@ -97,15 +95,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting promotion: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error getting promotion", error)
     }
   },
 )
@@ -187,15 +177,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error creating promotion: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error creating promotion", error)
     }
   },
 )
@@ -266,15 +248,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error creating promotion: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error creating promotion", error)
     }
   },
 )
@@ -348,15 +322,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error updating promotion: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error updating promotion", error)
     }
   },
 )
@@ -383,15 +349,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error deleting promotion: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error deleting promotion", error)
     }
   },
 )
@@ -0,0 +1,483 @@
+import { randomBytes } from "node:crypto"
+import { z } from "zod"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import OrderCloudClient from "../ordercloud-client.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
+import type { LineItem, Shipment, ShipmentItem } from "../../types/types.js"
+
+const shipmentInputs = {
+  buyerId: z.string().optional().describe("Buyer the shipment goes to"),
+  shipper: z.string().optional(),
+  trackingNumber: z.string().optional(),
+  cost: z.number().optional(),
+  dateShipped: z.string().optional(),
+  dateDelivered: z.string().optional(),
+  account: z.string().optional(),
+  fromAddressId: z.string().optional(),
+  toAddressId: z.string().optional(),
+  xp: z.record(z.any()).optional(),
+}
+
+type ShipmentInput = Partial<{ [K in keyof typeof shipmentInputs]: z.infer<(typeof shipmentInputs)[K]> }>
+
+function toShipment(input: ShipmentInput): Shipment {
+  return {
+    ...(input.buyerId && { BuyerID: input.buyerId }),
+    ...(input.shipper !== undefined && { Shipper: input.shipper }),
+    ...(input.trackingNumber !== undefined && { TrackingNumber: input.trackingNumber }),
+    ...(input.cost !== undefined && { Cost: input.cost }),
+    ...(input.dateShipped && { DateShipped: input.dateShipped }),
+    ...(input.dateDelivered && { DateDelivered: input.dateDelivered }),
+    ...(input.account !== undefined && { Account: input.account }),
+    ...(input.fromAddressId && { FromAddressID: input.fromAddressId }),
+    ...(input.toAddressId && { ToAddressID: input.toAddressId }),
+    ...(input.xp && { xp: input.xp }),
+  }
+}
+
+// Quantities to ship per line item: the ones asked for, or everything not shipped yet
+function planShipment(
+  orderId: string,
+  lineItems: LineItem[],
+  requested?: { lineItemId: string; quantity?: number }[],
+): ShipmentItem[] {
+  const unshipped = (lineItem: LineItem) => lineItem.Quantity - (lineItem.QuantityShipped ?? 0)
+
+  if (!requested) {
+    return lineItems
+      .filter((lineItem) => unshipped(lineItem) > 0)
+      .map((lineItem) => ({ OrderID: orderId, LineItemID: lineItem.ID!, QuantityShipped: unshipped(lineItem) }))
+  }
+
+  const duplicate = requested.find(({ lineItemId }, i) => requested.findIndex((entry) => entry.lineItemId === lineItemId) !== i)
+  if (duplicate) throw new Error(`Line item ${duplicate.lineItemId} is listed more than once; give its total quantity in a single entry`)
+
+  const byId = new Map(lineItems.map((lineItem) => [lineItem.ID, lineItem]))
+  return requested.map(({ lineItemId, quantity }) => {
+    const lineItem = byId.get(lineItemId)
+    if (!lineItem) throw new Error(`Order ${orderId} has no line item ${lineItemId}`)
+    const remaining = unshipped(lineItem)
+    if (remaining === 0 || (quantity ?? remaining) > remaining) {
+      throw new Error(`Line item ${lineItemId} has ${remaining} of ${lineItem.Quantity} units left to ship, not ${quantity ?? remaining}`)
+    }
+    return { OrderID: orderId, LineItemID: lineItemId, QuantityShipped: quantity ?? remaining }
+  })
+}
+
+export function registerShipmentTools(server: McpServer, orderCloudClient: OrderCloudClient) {
+
+// Tool: List Shipments
+server.registerTool(
+  "list_shipments",
+  {
+    title: "List Shipments",
+    description: "Retrieve a list of shipments from OrderCloud, optionally only those carrying items of one order or going to one buyer",
+    inputSchema: {
+      orderID: z.string().optional(),
+      buyerID: z.string().optional(),
+      page: z.number().optional().default(1),
+      pageSize: z.number().optional().default(20),
+      search: z.string().optional(),
+      searchOn: z
+        .array(z.enum(["ID", "TrackingNumber", "Shipper"]))
+        .optional(),
+      sortBy: z
+        .array(
+          z.enum([
+            "ID",
+            "DateShipped",
+            "DateDelivered",
+            "!ID",
+            "!DateShipped",
+            "!DateDelivered"
+          ])
+        )
+        .optional(),
+      ...filterInputs,
+      ...pagingInputs,
+    },
+  },
+  async ({ allPages, maxItems, ...input }) => {
+    try {
+      const result = allPages
+        ? await orderCloudClient.shipments.listAll(
+            (page) => orderCloudClient.shipments.listShipments({ ...input, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.shipments.listShipments(input)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error listing shipments", error)
+    }
+  }
+)
+
+// Tool: Get Shipment by ID
+server.registerTool(
+  "get_shipment",
+  {
+    title: "Get Shipment",
+    description: "Retrieve a specific shipment by ID from OrderCloud",
+    inputSchema: {
+      shipmentId: z.string(),
+    },
+  },
+  async ({ shipmentId }) => {
+    try {
+      const result = await orderCloudClient.shipments.getShipment(shipmentId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error getting shipment", error)
+    }
+  },
+)
+
+// Tool: Create Shipment
+server.registerTool(
+  "create_shipment",
+  {
+    title: "Create Shipment",
+    description: "Create an empty shipment; add line items to it with save_shipment_item, or use ship_order to do both at once",
+    inputSchema: {
+      id: z.string().optional(),
+      ...shipmentInputs,
+    },
+  },
+  async ({ id, ...input }) => {
+    try {
+      const result = await orderCloudClient.shipments.createShipment({ ...(id && { ID: id }), ...toShipment(input) })
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error creating shipment", error)
+    }
+  },
+)
+
+// Tool: Update Shipment (Full Update)
+server.registerTool(
+  "update_shipment",
+  {
+    title: "Update Shipment",
+    description: "Update an existing shipment in OrderCloud (full update - PUT)",
+    inputSchema: {
+      shipmentId: z.string(),
+      ...shipmentInputs,
+    },
+  },
+  async ({ shipmentId, ...input }) => {
+    try {
+      const result = await orderCloudClient.shipments.updateShipment(shipmentId, { ID: shipmentId, ...toShipment(input) })
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error updating shipment", error)
+    }
+  },
+)
+
+// Tool: Patch Shipment (Partial Update)
+server.registerTool(
+  "patch_shipment",
+  {
+    title: "Patch Shipment",
+    description: "Partially update a shipment (PATCH), e.g. add its tracking number or delivery date",
+    inputSchema: {
+      shipmentId: z.string(),
+      ...shipmentInputs,
+    },
+  },
+  async ({ shipmentId, ...input }) => {
+    try {
+      const result = await orderCloudClient.shipments.patchShipment(shipmentId, toShipment(input))
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error patching shipment", error)
+    }
+  },
+)
+
+// Tool: Delete Shipment
+server.registerTool(
+  "delete_shipment",
+  {
+    title: "Delete Shipment",
+    description: "Delete a shipment; the quantities it carried count as unshipped again",
+    inputSchema: {
+      shipmentId: z.string(),
+    },
+  },
+  async ({ shipmentId }) => {
+    try {
+      await orderCloudClient.shipments.deleteShipment(shipmentId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Shipment ${shipmentId} deleted successfully`,
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error deleting shipment", error)
+    }
+  },
+)
+
+// Tool: List Shipment Items
+server.registerTool(
+  "list_shipment_items",
+  {
+    title: "List Shipment Items",
+    description: "List the line items and quantities carried by a shipment",
+    inputSchema: {
+      shipmentId: z.string(),
+      page: z.number().optional().default(1),
+      pageSize: z.number().optional().default(20),
+      search: z.string().optional(),
+      searchOn: z
+        .array(z.enum(["OrderID", "LineItemID"]))
+        .optional(),
+      sortBy: z
+        .array(
+          z.enum([
+            "OrderID",
+            "LineItemID",
+            "QuantityShipped",
+            "!OrderID",
+            "!LineItemID",
+            "!QuantityShipped"
+          ])
+        )
+        .optional(),
+      ...filterInputs,
+      ...pagingInputs,
+    },
+  },
+  async ({ allPages, maxItems, shipmentId, ...input }) => {
+    try {
+      const result = allPages
+        ? await orderCloudClient.shipments.listAll(
+            (page) => orderCloudClient.shipments.listShipmentItems(shipmentId, { ...input, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.shipments.listShipmentItems(shipmentId, input)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error listing shipment items", error)
+    }
+  }
+)
+
+// Tool: Get Shipment Item
+server.registerTool(
+  "get_shipment_item",
+  {
+    title: "Get Shipment Item",
+    description: "Retrieve the quantity of one order line item carried by a shipment",
+    inputSchema: {
+      shipmentId: z.string(),
+      orderId: z.string(),
+      lineItemId: z.string(),
+    },
+  },
+  async ({ shipmentId, orderId, lineItemId }) => {
+    try {
+      const result = await orderCloudClient.shipments.getShipmentItem(shipmentId, orderId, lineItemId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error getting shipment item", error)
+    }
+  },
+)
+
+// Tool: Save Shipment Item
+server.registerTool(
+  "save_shipment_item",
+  {
+    title: "Save Shipment Item",
+    description: "Add a quantity of an order line item to a shipment, or change the quantity already on it",
+    inputSchema: {
+      shipmentId: z.string(),
+      orderId: z.string(),
+      lineItemId: z.string(),
+      quantityShipped: z.number().int().positive(),
+      xp: z.record(z.any()).optional(),
+    },
+  },
+  async ({ shipmentId, orderId, lineItemId, quantityShipped, xp }) => {
+    try {
+      const result = await orderCloudClient.shipments.saveShipmentItem(shipmentId, {
+        OrderID: orderId,
+        LineItemID: lineItemId,
+        QuantityShipped: quantityShipped,
+        ...(xp && { xp }),
+      })
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error saving shipment item", error)
+    }
+  },
+)
+
+// Tool: Delete Shipment Item
+server.registerTool(
+  "delete_shipment_item",
+  {
+    title: "Delete Shipment Item",
+    description: "Take an order line item off a shipment",
+    inputSchema: {
+      shipmentId: z.string(),
+      orderId: z.string(),
+      lineItemId: z.string(),
+    },
+  },
+  async ({ shipmentId, orderId, lineItemId }) => {
+    try {
+      await orderCloudClient.shipments.deleteShipmentItem(shipmentId, orderId, lineItemId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Line item ${orderId}/${lineItemId} removed from shipment ${shipmentId}`,
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error deleting shipment item", error)
+    }
+  },
+)
+
+// Tool: Ship Order
+server.registerTool(
+  "ship_order",
+  {
+    title: "Ship Order",
+    description:
+      "Ship an incoming order in one call: creates a shipment with the tracking number, shipper and cost, and adds every unshipped line item quantity to it. Pass lineItems to ship only part of the order. dateShipped defaults to now.",
+    inputSchema: {
+      orderId: z.string(),
+      lineItems: z
+        .array(
+          z.object({
+            lineItemId: z.string(),
+            quantity: z.number().int().positive().optional().describe("Defaults to everything not shipped yet"),
+          }),
+        )
+        .optional()
+        .describe("Line items to ship; every unshipped line item when left out"),
+      shipmentId: z.string().optional(),
+      ...shipmentInputs,
+    },
+  },
+  async ({ orderId, lineItems: requested, shipmentId, ...input }) => {
+    let shipment: Shipment
+    let items: ShipmentItem[]
+    try {
+      const [order, lineItems] = await Promise.all([
+        orderCloudClient.orders.getOrder("Incoming", orderId),
+        orderCloudClient.lineItems.listAll((page) => orderCloudClient.lineItems.listLineItems("Incoming", orderId, page)),
+      ])
+      items = planShipment(orderId, lineItems.Items, requested)
+      if (items.length === 0) throw new Error(`Every line item of order ${orderId} has already been shipped`)
+
+      // ship to the address of the line items being shipped when they all share one
+      const shippedIds = new Set(items.map((item) => item.LineItemID))
+      const addresses = new Set(
+        lineItems.Items.filter((lineItem) => shippedIds.has(lineItem.ID!)).map((lineItem) => lineItem.ShippingAddressID),
+      )
+      const toAddressId = addresses.size === 1 ? [...addresses][0] : undefined
+
+      // pick the ID up front so the item requests have a path even when a dry run doesn't create the shipment
+      shipment = await orderCloudClient.shipments.createShipment({
+        ID: shipmentId ?? randomBytes(8).toString("hex"),
+        ...(order.FromCompanyID && { BuyerID: order.FromCompanyID }),
+        ...(toAddressId && { ToAddressID: toAddressId }),
+        ...toShipment(input),
+        DateShipped: input.dateShipped ?? new Date().toISOString(),
+      })
+    } catch (error) {
+      return toolError("Error shipping order", error)
+    }
+
+    // the shipment exists from here on, so say how far adding items got if one fails
+    const shipped: ShipmentItem[] = []
+    try {
+      for (const item of items) {
+        shipped.push(await orderCloudClient.shipments.saveShipmentItem(shipment.ID!, item))
+      }
+    } catch (error) {
+      return toolError(`Shipment ${shipment.ID} was created but only ${shipped.length} of ${items.length} line items were added to it`, error)
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Shipped ${shipped.reduce((sum, item) => sum + item.QuantityShipped, 0)} units across ${shipped.length} line items of order ${orderId} in shipment ${shipment.ID}`,
+        },
+        {
+          type: "text",
+          text: JSON.stringify({ Shipment: shipment, Items: shipped }, null, 2),
+        },
+      ],
+    }
+  },
+)
+}
@@ -0,0 +1,235 @@
+import { z } from "zod"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import OrderCloudClient from "../ordercloud-client.js"
+import { toUser, userInputs } from "../users/users-tools.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
+import type { User } from "../../types/types.js"
+
+export function registerSupplierUserTools(server: McpServer, orderCloudClient: OrderCloudClient) {
+
+// Tool: List Supplier Users
+server.registerTool(
+  "list_supplier_users",
+  {
+    title: "List Supplier Users",
+    description: "Retrieve the users of a supplier with filtering, searching and sorting, optionally only members of one supplier user group",
+    inputSchema: {
+      supplierId: z.string(),
+      userGroupID: z.string().optional(),
+      page: z.number().optional().default(1),
+      pageSize: z.number().optional().default(20),
+      search: z.string().optional(),
+      searchOn: z
+        .array(z.enum(["ID", "Username", "FirstName", "LastName", "Email"]))
+        .optional(),
+      sortBy: z
+        .array(
+          z.enum([
+            "ID",
+            "Username",
+            "FirstName",
+            "LastName",
+            "Email",
+            "DateCreated",
+            "!ID",
+            "!Username",
+            "!FirstName",
+            "!LastName",
+            "!Email",
+            "!DateCreated"
+          ])
+        )
+        .optional(),
+      ...filterInputs,
+      ...pagingInputs,
+    },
+  },
+  async ({ allPages, maxItems, supplierId, ...input }) => {
+    try {
+      const result = allPages
+        ? await orderCloudClient.supplierUsers.listAll(
+            (page) => orderCloudClient.supplierUsers.listSupplierUsers(supplierId, { ...input, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.supplierUsers.listSupplierUsers(supplierId, input)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error listing supplier users", error)
+    }
+  }
+)
+
+// Tool: Get Supplier User by ID
+server.registerTool(
+  "get_supplier_user",
+  {
+    title: "Get Supplier User",
+    description: "Retrieve a specific user of a supplier",
+    inputSchema: {
+      supplierId: z.string(),
+      userId: z.string(),
+    },
+  },
+  async ({ supplierId, userId }) => {
+    try {
+      const result = await orderCloudClient.supplierUsers.getSupplierUser(supplierId, userId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error getting supplier user", error)
+    }
+  },
+)
+
+// Tool: Create Supplier User
+server.registerTool(
+  "create_supplier_user",
+  {
+    title: "Create Supplier User",
+    description: "Create a new user in a supplier, optionally adding them to supplier user groups in the same call",
+    inputSchema: {
+      supplierId: z.string(),
+      id: z.string().optional(),
+      ...userInputs,
+      username: z.string(),
+      password: z.string().optional(),
+      active: z.boolean().optional().default(true),
+      userGroupIds: z.array(z.string()).optional().describe("Supplier user groups to add the new user to"),
+    },
+  },
+  async ({ supplierId, id, password, userGroupIds = [], ...input }) => {
+    let user: User
+    try {
+      const newUser = { ...(id && { ID: id }), ...toUser(input), ...(password && { Password: password }) } as User
+      user = await orderCloudClient.supplierUsers.createSupplierUser(supplierId, newUser)
+    } catch (error) {
+      return toolError("Error creating supplier user", error)
+    }
+
+    // the user exists from here on, so say which groups it made it into if one fails
+    const joined: string[] = []
+    try {
+      for (const userGroupId of userGroupIds) {
+        await orderCloudClient.supplierUserGroups.saveUserGroupAssignment(supplierId, {
+          UserGroupID: userGroupId,
+          UserID: user.ID!,
+        })
+        joined.push(userGroupId)
+      }
+    } catch (error) {
+      return toolError(`Supplier user ${user.ID} was created but only added to ${joined.length} of ${userGroupIds.length} user groups`, error)
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(joined.length ? { ...user, UserGroupIDs: joined } : user, null, 2),
+        },
+      ],
+    }
+  },
+)
+
+// Tool: Update Supplier User (Full Update)
+server.registerTool(
+  "update_supplier_user",
+  {
+    title: "Update Supplier User",
+    description: "Update an existing supplier user in OrderCloud (full update - PUT); fields left out are cleared",
+    inputSchema: {
+      supplierId: z.string(),
+      userId: z.string(),
+      ...userInputs,
+      username: z.string(),
+    },
+  },
+  async ({ supplierId, userId, ...input }) => {
+    try {
+      const user = { ID: userId, ...toUser(input) } as User
+      const result = await orderCloudClient.supplierUsers.updateSupplierUser(supplierId, userId, user)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error updating supplier user", error)
+    }
+  },
+)
+
+// Tool: Patch Supplier User (Partial Update)
+server.registerTool(
+  "patch_supplier_user",
+  {
+    title: "Patch Supplier User",
+    description: "Partially update an existing supplier user in OrderCloud (PATCH), e.g. set active false to stop them signing in",
+    inputSchema: {
+      supplierId: z.string(),
+      userId: z.string(),
+      ...userInputs,
+    },
+  },
+  async ({ supplierId, userId, ...input }) => {
+    try {
+      const result = await orderCloudClient.supplierUsers.patchSupplierUser(supplierId, userId, toUser(input))
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error patching supplier user", error)
+    }
+  },
+)
+
+// Tool: Delete Supplier User
+server.registerTool(
+  "delete_supplier_user",
+  {
+    title: "Delete Supplier User",
+    description: "Delete a user from a supplier",
+    inputSchema: {
+      supplierId: z.string(),
+      userId: z.string(),
+    },
+  },
+  async ({ supplierId, userId }) => {
+    try {
+      await orderCloudClient.supplierUsers.deleteSupplierUser(supplierId, userId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Supplier user ${userId} deleted successfully from supplier ${supplierId}`,
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error deleting supplier user", error)
+    }
+  },
+)
+}
@@ -1,6 +1,8 @@
 import { z } from "zod"
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
 import OrderCloudClient from "../ordercloud-client.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
 
 export function registerSupplierTools(server: McpServer, orderCloudClient: OrderCloudClient) {
 
@@ -27,12 +29,18 @@ server.registerTool(
           ])
         )
         .optional(),
-      filters: z.record(z.any()).optional(),
+      ...filterInputs,
+      ...pagingInputs,
     },
   },
-  async (input) => {
+  async ({ allPages, maxItems, ...input }) => {
     try {
-      const result = await orderCloudClient.suppliers.listSuppliers(input)
+      const result = allPages
+        ? await orderCloudClient.suppliers.listAll(
+            (page) => orderCloudClient.suppliers.listSuppliers({ ...input, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.suppliers.listSuppliers(input)
       return {
         content: [
           {
@@ -42,17 +50,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error listing suppliers: ${
-              error instanceof Error ? error.message : String(error)
-            }`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error listing suppliers", error)
     }
   }
 )
@@ -79,15 +77,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error getting supplier: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error getting supplier", error)
     }
   },
 )
@@ -123,15 +113,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error creating supplier: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error creating supplier", error)
     }
   },
 )
@@ -170,15 +152,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error updating supplier: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error updating supplier", error)
     }
   },
 )
@@ -217,15 +191,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error patching supplier: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error patching supplier", error)
     }
   },
 )
@@ -252,15 +218,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error deleting supplier: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error deleting supplier", error)
     }
   },
 )
@@ -289,13 +247,19 @@ server.registerTool(
           ])
         )
         .optional(),
-      filters: z.record(z.any()).optional(),
+      ...filterInputs,
+      ...pagingInputs,
     },
   },
-  async (input) => {
+  async ({ allPages, maxItems, ...input }) => {
     try {
       const { supplierId, ...options } = input
-      const result = await orderCloudClient.suppliers.listSupplierBuyers(supplierId, options)
+      const result = allPages
+        ? await orderCloudClient.suppliers.listAll(
+            (page) => orderCloudClient.suppliers.listSupplierBuyers(supplierId, { ...options, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.suppliers.listSupplierBuyers(supplierId, options)
       return {
         content: [
           {
@@ -305,17 +269,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error listing supplier buyers: ${
-              error instanceof Error ? error.message : String(error)
-            }`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error listing supplier buyers", error)
     }
   }
 )
@@ -345,15 +299,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error saving supplier buyer: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error saving supplier buyer", error)
     }
   },
 )
@@ -382,15 +328,7 @@ server.registerTool(
         ],
       }
     } catch (error) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `Error deleting supplier buyer: ${error instanceof Error ? error.message : String(error)}`,
-          },
-        ],
-        isError: true,
-      }
+      return toolError("Error deleting supplier buyer", error)
     }
   },
 )
@@ -0,0 +1,264 @@
+import { z } from "zod"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js"
+import { DebugLogger } from "./utils/debug.js"
+import { runDryRun, type PlannedRequest } from "./utils/dry-run.js"
+import { describeError, toolError } from "./utils/tool-error.js"
+import type { DeleteConfirmation } from "./delete-confirmation.js"
+
+export const TOOLSETS = [
+  "auth",
+  "environments",
+  "catalogs",
+  "products",
+  "categories",
+  "promotions",
+  "buyers",
+  "suppliers",
+  "priceSchedules",
+  "addresses",
+  "orders",
+  "payments",
+  "shipments",
+  "users",
+  "userGroups",
+  "adminUsers",
+  "supplierUsers",
+  "supplierUserGroups",
+  "impersonation",
+  "debug",
+] as const
+
+export type Toolset = (typeof TOOLSETS)[number]
+
+// "flag" keeps tools the token can't use but marks them, "skip" leaves them unregistered
+export type RoleFilterMode = "off" | "flag" | "skip"
+
+export interface ToolPolicy {
+  roleFilter?: RoleFilterMode
+  // roles granted to the current token; role filtering is skipped while unknown
+  grantedRoles?: () => string[] | undefined
+  // subscribes to sign-ins, after which the roles are read again
+  onSignIn?: (listener: () => void) => void
+  // marketplace the tools currently talk to, stamped on every response
+  environment?: () => { name: string; baseURL: string }
+  // leave every tool that writes to OrderCloud unregistered
+  readOnly?: boolean
+  // answer every write tool with the requests it would send instead of sending them
+  planMode?: boolean
+  // asks before delete tools run; deletes run immediately when unset
+  confirmDelete?: DeleteConfirmation
+}
+
+interface ToolsetRoles {
+  read: string[]
+  write: string[]
+}
+
+// OrderCloud roles that grant access to each toolset; any one of them is enough
+const TOOLSET_ROLES: Partial<Record<Toolset, ToolsetRoles>> = {
+  catalogs: { read: ["CatalogReader", "CatalogAdmin"], write: ["CatalogAdmin"] },
+  categories: { read: ["CategoryReader", "CategoryAdmin"], write: ["CategoryAdmin"] },
+  products: { read: ["ProductReader", "ProductAdmin"], write: ["ProductAdmin"] },
+  promotions: { read: ["PromotionReader", "PromotionAdmin"], write: ["PromotionAdmin"] },
+  buyers: { read: ["BuyerReader", "BuyerAdmin"], write: ["BuyerAdmin"] },
+  suppliers: { read: ["SupplierReader", "SupplierAdmin"], write: ["SupplierAdmin"] },
+  priceSchedules: { read: ["PriceScheduleReader", "PriceScheduleAdmin"], write: ["PriceScheduleAdmin"] },
+  addresses: { read: ["AddressReader", "AddressAdmin"], write: ["AddressAdmin"] },
+  orders: { read: ["OrderReader", "OrderAdmin"], write: ["OrderAdmin"] },
+  payments: { read: ["OrderReader", "OrderAdmin"], write: ["OrderAdmin"] },
+  shipments: { read: ["ShipmentReader", "ShipmentAdmin"], write: ["ShipmentAdmin"] },
+  users: { read: ["BuyerUserReader", "BuyerUserAdmin"], write: ["BuyerUserAdmin"] },
+  userGroups: { read: ["UserGroupReader", "UserGroupAdmin"], write: ["UserGroupAdmin"] },
+  adminUsers: { read: ["AdminUserReader", "AdminUserAdmin"], write: ["AdminUserAdmin"] },
+  supplierUsers: { read: ["SupplierUserReader", "SupplierUserAdmin"], write: ["SupplierUserAdmin"] },
+  supplierUserGroups: { read: ["SupplierUserGroupReader", "SupplierUserGroupAdmin"], write: ["SupplierUserGroupAdmin"] },
+}
+
+// Tools whose roles differ from the rest of their toolset
+const TOOL_ROLES: Record<string, string[]> = {
+  list_product_assignments: ["ProductAssignmentAdmin", "ProductReader", "ProductAdmin"],
+  save_product_assignment: ["ProductAssignmentAdmin"],
+  delete_product_assignment: ["ProductAssignmentAdmin"],
+  impersonate_user: ["BuyerImpersonation"],
+  // buyer users submit their own orders
+  submit_order: ["Shopper", "OrderAdmin"],
+}
+
+const WRITE_TOOL_PREFIXES = [
+  "create_",
+  "update_",
+  "patch_",
+  "delete_",
+  "save_",
+  "remove_",
+  "generate_",
+  "submit_",
+  "approve_",
+  "decline_",
+  "cancel_",
+  "complete_",
+  "ship_",
+  "deactivate_",
+  "move_",
+  "reset_",
+]
+
+// Tools that write without a write prefix in their name
+const WRITE_TOOLS = new Set(["debug_promotion_creation", "test_simple_promotion"])
+
+export function isWriteTool(name: string): boolean {
+  return WRITE_TOOLS.has(name) || WRITE_TOOL_PREFIXES.some((prefix) => name.startsWith(prefix))
+}
+
+export function isDeleteTool(name: string): boolean {
+  return name.startsWith("delete_") || name.startsWith("remove_")
+}
+
+// Roles of which the token needs at least one to call the tool; empty when none are needed
+export function requiredRoles(toolset: Toolset, name: string): string[] {
+  if (TOOL_ROLES[name]) return TOOL_ROLES[name]
+  const roles = TOOLSET_ROLES[toolset]
+  if (!roles) return []
+  return isWriteTool(name) ? roles.write : roles.read
+}
+
+// Whether a token with these roles can read what a toolset covers; unknown roles count as granted
+export function canReadToolset(toolset: Toolset, granted: string[] | undefined): boolean {
+  return !granted || isGranted(TOOLSET_ROLES[toolset]?.read ?? [], granted)
+}
+
+function isGranted(required: string[], granted: string[]): boolean {
+  return required.length === 0 || granted.includes("FullAccess") || required.some((role) => granted.includes(role))
+}
+
+// registerTool's own parameter types, so wrapped tools are checked like directly registered ones
+type ToolConfig = Parameters<McpServer["registerTool"]>[1]
+type ToolCallback = Parameters<McpServer["registerTool"]>[2]
+
+/**
+ * Returns a view of the server whose registerTool applies the policy
+ * before handing the tool to the real server.
+ */
+export function withToolPolicy(server: McpServer, toolset: Toolset, policy: ToolPolicy): McpServer {
+  const { roleFilter = "off", grantedRoles, onSignIn, environment, readOnly = false, planMode = false, confirmDelete } = policy
+  const scoped = Object.create(server) as McpServer
+
+  scoped.registerTool = ((name: string, config: ToolConfig, callback: ToolCallback) => {
+    if (readOnly && isWriteTool(name)) {
+      DebugLogger.log("tool_skipped", { name, toolset, reason: "read-only" })
+      return undefined
+    }
+
+    let planned: ToolCallback = callback
+    if (isWriteTool(name)) {
+      config = {
+        ...config,
+        description: planMode ? `[Plan mode: nothing is sent to OrderCloud] ${config.description ?? ""}` : config.description,
+        inputSchema: {
+          ...config.inputSchema,
+          dryRun: z
+            .boolean()
+            .optional()
+            .describe("Return the HTTP requests this call would send, with a diff against the current resource, without sending them"),
+          ...(confirmDelete &&
+            isDeleteTool(name) && {
+              confirmToken: z.string().optional().describe("Token from the confirmation request, once the user has agreed to the delete"),
+            }),
+        },
+      }
+      planned = async ({ dryRun, confirmToken, ...input }, extra) => {
+        if (dryRun || planMode) return planResult(name, await runDryRun(async () => callback(input, extra)))
+
+        if (confirmDelete && isDeleteTool(name)) {
+          const unconfirmed = await confirmDelete(name, input, confirmToken)
+          if (unconfirmed) return unconfirmed
+        }
+        return callback(input, extra)
+      }
+    }
+
+    // anything a tool lets escape still comes back in the shared error shape
+    const guarded: ToolCallback = async (args, extra) => {
+      try {
+        return await planned(args, extra)
+      } catch (error) {
+        return toolError(`Error running ${name}`, error)
+      }
+    }
+
+    const handler: ToolCallback = environment
+      ? async (args, extra) => stampEnvironment(await guarded(args, extra), environment())
+      : guarded
+
+    const tool = server.registerTool(name, config, handler)
+    if (roleFilter !== "off" && grantedRoles) {
+      // hide or mark the tool while the token lacks its roles, again after every sign-in
+      const required = requiredRoles(toolset, name)
+      const description = config.description ?? ""
+      let granted = true
+      const applyRoles = () => {
+        const roles = grantedRoles()
+        const nowGranted = !roles || isGranted(required, roles)
+        if (nowGranted === granted) return
+        granted = nowGranted
+
+        if (roleFilter === "skip") {
+          DebugLogger.log(granted ? "tool_enabled" : "tool_skipped", { name, toolset, requiredRoles: required })
+          if (granted) tool.enable()
+          else tool.disable()
+        } else {
+          tool.update({
+            description: granted ? description : `[Requires role ${required.join(" or ")}, not granted to the current token] ${description}`,
+          })
+        }
+      }
+      applyRoles()
+      onSignIn?.(applyRoles)
+    }
+    return tool
+  }) as McpServer["registerTool"]
+
+  return scoped
+}
+
+// Report the captured requests in place of the tool's own result
+function planResult(name: string, run: { result?: CallToolResult; error?: unknown; requests: PlannedRequest[] }): CallToolResult {
+  const failed = run.error !== undefined || run.result?.isError === true
+  const plan = {
+    dryRun: true,
+    tool: name,
+    requests: run.requests,
+    ...(run.requests.length === 0 && { note: "No write requests would be sent" }),
+    ...(failed &&
+      (run.error !== undefined ? { error: describeError(`Error running ${name}`, run.error) } : failurePayload(run.result!))),
+  }
+
+  return {
+    content: [{ type: "text", text: JSON.stringify(plan, null, 2) }],
+    ...(failed && { isError: true }),
+  }
+}
+
+// The { error, ...details } payload of a failed tool result, nested as is instead of as its JSON text
+function failurePayload(result: CallToolResult): Record<string, unknown> {
+  const text = result.content.map((item) => (item.type === "text" ? item.text : "")).join("\n")
+  try {
+    const payload = JSON.parse(text)
+    if (payload && typeof payload === "object" && "error" in payload) return payload
+  } catch {
+    // not one of ours; keep the text below
+  }
+  return { error: { message: text } }
+}
+
+// Lead every tool result with the environment it ran against, so nobody edits production by accident
+function stampEnvironment(result: CallToolResult, environment: { name: string; baseURL: string }): CallToolResult {
+  return {
+    ...result,
+    content: [
+      { type: "text", text: `[OrderCloud environment: ${environment.name} (${environment.baseURL})]` },
+      ...(result.content ?? []),
+    ],
+  }
+}
@@ -0,0 +1,478 @@
+import { z } from "zod"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import OrderCloudClient from "../ordercloud-client.js"
+import type { UserGroupClient, UserGroupParent } from "../clients/user-group-client.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { toolError } from "../utils/tool-error.js"
+import type { ListResponse, User } from "../../types/types.js"
+
+type ParentParam = "buyerId" | "supplierId"
+
+interface UserGroupScope {
+  // argument that names the buyer or supplier
+  idParam: ParentParam
+  // prefixes keep supplier tools apart from the buyer ones: list_supplier_user_groups, "List Supplier User Groups"
+  toolPrefix: string
+  titlePrefix: string
+  // how descriptions and errors refer to the parent, its groups and its users
+  parentNoun: string
+  groupNoun: string
+  userNoun: string
+  createDescription: string
+  deleteDescription: string
+  // resolved on every call, since switching environment replaces the clients
+  groups: (orderCloudClient: OrderCloudClient) => UserGroupClient
+  listUsers: (
+    orderCloudClient: OrderCloudClient,
+    parentId: string,
+    options: { userGroupID: string; page?: number; pageSize?: number },
+  ) => Promise<ListResponse<User>>
+}
+
+const SCOPES: Record<UserGroupParent, UserGroupScope> = {
+  buyers: {
+    idParam: "buyerId",
+    toolPrefix: "",
+    titlePrefix: "",
+    parentNoun: "buyer organization",
+    groupNoun: "user group",
+    userNoun: "buyer user",
+    createDescription:
+      "Create a user group in a buyer organization; catalogs, categories, products and addresses can then be assigned to it",
+    deleteDescription: "Delete a user group; its members stay in the buyer but lose everything assigned through the group",
+    groups: (orderCloudClient) => orderCloudClient.userGroups,
+    listUsers: (orderCloudClient, buyerId, options) => orderCloudClient.users.listUsers(buyerId, options),
+  },
+  suppliers: {
+    idParam: "supplierId",
+    toolPrefix: "supplier_",
+    titlePrefix: "Supplier ",
+    parentNoun: "supplier",
+    groupNoun: "supplier user group",
+    userNoun: "supplier user",
+    createDescription: "Create a user group in a supplier, e.g. a team whose members share an address or role",
+    deleteDescription: "Delete a supplier user group; its members stay in the supplier",
+    groups: (orderCloudClient) => orderCloudClient.supplierUserGroups,
+    listUsers: (orderCloudClient, supplierId, options) => orderCloudClient.supplierUsers.listSupplierUsers(supplierId, options),
+  },
+}
+
+// The buyerId or supplierId argument; typed as both so splitParent can pick out whichever the scope uses
+function parentInput(scope: UserGroupScope): Record<ParentParam, z.ZodString> {
+  return { [scope.idParam]: z.string() } as Record<ParentParam, z.ZodString>
+}
+
+// Split a tool's arguments into the buyer or supplier ID and everything else
+function splitParent<T extends Record<ParentParam, string>>(scope: UserGroupScope, args: T): [string, Omit<T, ParentParam>] {
+  const { buyerId, supplierId, ...rest } = args
+  return [scope.idParam === "buyerId" ? buyerId : supplierId, rest]
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
+
+/**
+ * User group tools for buyers (list_user_groups, ...) or suppliers
+ * (list_supplier_user_groups, ...); both APIs work the same way.
+ */
+export function registerUserGroupTools(server: McpServer, orderCloudClient: OrderCloudClient, parent: UserGroupParent = "buyers") {
+const scope = SCOPES[parent]
+const { toolPrefix, titlePrefix, parentNoun, groupNoun, userNoun } = scope
+const groups = () => scope.groups(orderCloudClient)
+
+// Tool: List User Groups
+server.registerTool(
+  `list_${toolPrefix}user_groups`,
+  {
+    title: `List ${titlePrefix}User Groups`,
+    description: `Retrieve the user groups of a ${parentNoun} with filtering, searching and sorting`,
+    inputSchema: {
+      ...parentInput(scope),
+      page: z.number().optional().default(1),
+      pageSize: z.number().optional().default(20),
+      search: z.string().optional(),
+      searchOn: z
+        .array(z.enum(["ID", "Name", "Description"]))
+        .optional(),
+      sortBy: z
+        .array(
+          z.enum([
+            "Name",
+            "ID",
+            "!Name",
+            "!ID"
+          ])
+        )
+        .optional(),
+      ...filterInputs,
+      ...pagingInputs,
+    },
+  },
+  async (args) => {
+    const [parentId, { allPages, maxItems, ...input }] = splitParent(scope, args)
+    try {
+      const result = allPages
+        ? await groups().listAll(
+            (page) => groups().listUserGroups(parentId, { ...input, ...page }),
+            { maxItems },
+          )
+        : await groups().listUserGroups(parentId, input)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError(`Error listing ${groupNoun}s`, error)
+    }
+  }
+)
+
+// Tool: Get User Group by ID
+server.registerTool(
+  `get_${toolPrefix}user_group`,
+  {
+    title: `Get ${titlePrefix}User Group`,
+    description: `Retrieve a specific user group of a ${parentNoun}`,
+    inputSchema: {
+      ...parentInput(scope),
+      userGroupId: z.string(),
+    },
+  },
+  async (args) => {
+    const [parentId, { userGroupId }] = splitParent(scope, args)
+    try {
+      const result = await groups().getUserGroup(parentId, userGroupId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError(`Error getting ${groupNoun}`, error)
+    }
+  },
+)
+
+// Tool: Create User Group
+server.registerTool(
+  `create_${toolPrefix}user_group`,
+  {
+    title: `Create ${titlePrefix}User Group`,
+    description: scope.createDescription,
+    inputSchema: {
+      ...parentInput(scope),
+      id: z.string().optional(),
+      name: z.string(),
+      description: z.string().optional(),
+      xp: z.record(z.any()).optional(),
+    },
+  },
+  async (args) => {
+    const [parentId, input] = splitParent(scope, args)
+    try {
+      const userGroup = {
+        ...(input.id && { ID: input.id }),
+        Name: input.name,
+        ...(input.description !== undefined && { Description: input.description }),
+        ...(input.xp && { xp: input.xp }),
+      }
+      const result = await groups().createUserGroup(parentId, userGroup)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError(`Error creating ${groupNoun}`, error)
+    }
+  },
+)
+
+// Tool: Update User Group (Full Update)
+server.registerTool(
+  `update_${toolPrefix}user_group`,
+  {
+    title: `Update ${titlePrefix}User Group`,
+    description: `Update an existing ${groupNoun} in OrderCloud (full update - PUT)`,
+    inputSchema: {
+      ...parentInput(scope),
+      userGroupId: z.string(),
+      name: z.string(),
+      description: z.string().optional(),
+      xp: z.record(z.any()).optional(),
+    },
+  },
+  async (args) => {
+    const [parentId, { userGroupId, ...input }] = splitParent(scope, args)
+    try {
+      const userGroup = {
+        ID: userGroupId,
+        Name: input.name,
+        ...(input.description !== undefined && { Description: input.description }),
+        ...(input.xp && { xp: input.xp }),
+      }
+      const result = await groups().updateUserGroup(parentId, userGroupId, userGroup)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError(`Error updating ${groupNoun}`, error)
+    }
+  },
+)
+
+// Tool: Patch User Group (Partial Update)
+server.registerTool(
+  `patch_${toolPrefix}user_group`,
+  {
+    title: `Patch ${titlePrefix}User Group`,
+    description: `Partially update an existing ${groupNoun} in OrderCloud (PATCH)`,
+    inputSchema: {
+      ...parentInput(scope),
+      userGroupId: z.string(),
+      name: z.string().optional(),
+      description: z.string().optional(),
+      xp: z.record(z.any()).optional(),
+    },
+  },
+  async (args) => {
+    const [parentId, { userGroupId, ...input }] = splitParent(scope, args)
+    try {
+      const userGroup = {
+        ...(input.name !== undefined && { Name: input.name }),
+        ...(input.description !== undefined && { Description: input.description }),
+        ...(input.xp && { xp: input.xp }),
+      }
+      const result = await groups().patchUserGroup(parentId, userGroupId, userGroup)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError(`Error patching ${groupNoun}`, error)
+    }
+  },
+)
+
+// Tool: Delete User Group
+server.registerTool(
+  `delete_${toolPrefix}user_group`,
+  {
+    title: `Delete ${titlePrefix}User Group`,
+    description: scope.deleteDescription,
+    inputSchema: {
+      ...parentInput(scope),
+      userGroupId: z.string(),
+    },
+  },
+  async (args) => {
+    const [parentId, { userGroupId }] = splitParent(scope, args)
+    try {
+      await groups().deleteUserGroup(parentId, userGroupId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${capitalize(groupNoun)} ${userGroupId} deleted successfully`,
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError(`Error deleting ${groupNoun}`, error)
+    }
+  },
+)
+
+// Tool: List User Group Assignments
+server.registerTool(
+  `list_${toolPrefix}user_group_assignments`,
+  {
+    title: `List ${titlePrefix}User Group Assignments`,
+    description: `List user group memberships in a ${parentNoun}, optionally for one group or one user`,
+    inputSchema: {
+      ...parentInput(scope),
+      userGroupID: z.string().optional(),
+      userID: z.string().optional(),
+      page: z.number().optional().default(1),
+      pageSize: z.number().optional().default(20),
+      ...pagingInputs,
+    },
+  },
+  async (args) => {
+    const [parentId, { allPages, maxItems, ...input }] = splitParent(scope, args)
+    try {
+      const result = allPages
+        ? await groups().listAll(
+            (page) => groups().listUserGroupAssignments(parentId, { ...input, ...page }),
+            { maxItems },
+          )
+        : await groups().listUserGroupAssignments(parentId, input)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError(`Error listing ${groupNoun} assignments`, error)
+    }
+  }
+)
+
+// Tool: Save User Group Assignment
+server.registerTool(
+  `save_${toolPrefix}user_group_assignment`,
+  {
+    title: `Save ${titlePrefix}User Group Assignment`,
+    description: `Add a ${userNoun} to a user group of the same ${parentNoun}`,
+    inputSchema: {
+      ...parentInput(scope),
+      userGroupId: z.string(),
+      userId: z.string(),
+    },
+  },
+  async (args) => {
+    const [parentId, { userGroupId, userId }] = splitParent(scope, args)
+    try {
+      await groups().saveUserGroupAssignment(parentId, { UserGroupID: userGroupId, UserID: userId })
+      return {
+        content: [
+          {
+            type: "text",
+            text: `User ${userId} added to ${groupNoun} ${userGroupId}`,
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError(`Error saving ${groupNoun} assignment`, error)
+    }
+  },
+)
+
+// Tool: Delete User Group Assignment
+server.registerTool(
+  `delete_${toolPrefix}user_group_assignment`,
+  {
+    title: `Delete ${titlePrefix}User Group Assignment`,
+    description: `Remove a user from a ${groupNoun}`,
+    inputSchema: {
+      ...parentInput(scope),
+      userGroupId: z.string(),
+      userId: z.string(),
+    },
+  },
+  async (args) => {
+    const [parentId, { userGroupId, userId }] = splitParent(scope, args)
+    try {
+      await groups().deleteUserGroupAssignment(parentId, userGroupId, userId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: `User ${userId} removed from ${groupNoun} ${userGroupId}`,
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError(`Error deleting ${groupNoun} assignment`, error)
+    }
+  },
+)
+
+// Tool: List User Group Members
+server.registerTool(
+  `list_${toolPrefix}user_group_members`,
+  {
+    title: `List ${titlePrefix}User Group Members`,
+    description: `List the users that belong to a ${groupNoun}, with their full details`,
+    inputSchema: {
+      ...parentInput(scope),
+      userGroupId: z.string(),
+      page: z.number().optional().default(1),
+      pageSize: z.number().optional().default(20),
+      ...pagingInputs,
+    },
+  },
+  async (args) => {
+    const [parentId, { allPages, maxItems, userGroupId, ...input }] = splitParent(scope, args)
+    try {
+      const result = allPages
+        ? await groups().listAll(
+            (page) => scope.listUsers(orderCloudClient, parentId, { userGroupID: userGroupId, ...page }),
+            { maxItems },
+          )
+        : await scope.listUsers(orderCloudClient, parentId, { userGroupID: userGroupId, ...input })
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError(`Error listing ${groupNoun} members`, error)
+    }
+  }
+)
+
+// Tool: List Groups of User
+server.registerTool(
+  `list_${toolPrefix}user_groups_of_user`,
+  {
+    title: `List ${titlePrefix}User Groups of User`,
+    description: `List every user group a ${userNoun} belongs to, with the groups' full details`,
+    inputSchema: {
+      ...parentInput(scope),
+      userId: z.string(),
+    },
+  },
+  async (args) => {
+    const [parentId, { userId }] = splitParent(scope, args)
+    try {
+      const assignments = await groups().listAll((page) =>
+        groups().listUserGroupAssignments(parentId, { userID: userId, ...page }),
+      )
+      const ids = assignments.Items.map((assignment) => assignment.UserGroupID)
+      // one filtered list instead of a lookup per group
+      const userGroups = ids.length
+        ? await groups().listAll((page) =>
+            groups().listUserGroups(parentId, { filters: { ID: ids.join("|") }, ...page }),
+          )
+        : { Items: [] }
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ UserID: userId, Items: userGroups.Items }, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError(`Error listing ${groupNoun}s of user`, error)
+    }
+  },
+)
+}
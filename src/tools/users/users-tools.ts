@@ -0,0 +1,397 @@
+import { randomBytes } from "node:crypto"
+import { z } from "zod"
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import OrderCloudClient from "../ordercloud-client.js"
+import { filterInputs, pagingInputs } from "../utils/list-inputs.js"
+import { describeError, toolError } from "../utils/tool-error.js"
+import type { User } from "../../types/types.js"
+
+// Profile fields shared by buyer, supplier and admin users
+export const userInputs = {
+  username: z.string().optional(),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  active: z.boolean().optional(),
+  xp: z.record(z.any()).optional(),
+}
+
+type UserInput = Partial<{ [K in keyof typeof userInputs]: z.infer<(typeof userInputs)[K]> }>
+
+export function toUser(input: UserInput): Partial<User> {
+  return {
+    ...(input.username && { Username: input.username }),
+    ...(input.firstName !== undefined && { FirstName: input.firstName }),
+    ...(input.lastName !== undefined && { LastName: input.lastName }),
+    ...(input.email !== undefined && { Email: input.email }),
+    ...(input.phone !== undefined && { Phone: input.phone }),
+    ...(input.active !== undefined && { Active: input.active }),
+    ...(input.xp && { xp: input.xp }),
+  }
+}
+
+// Random password that meets OrderCloud's default rules: 10+ characters with upper, lower, digit and symbol
+function generatePassword(): string {
+  return `${randomBytes(12).toString("base64url")}-7aA`
+}
+
+export function registerUserTools(server: McpServer, orderCloudClient: OrderCloudClient) {
+
+// Tool: List Users
+server.registerTool(
+  "list_users",
+  {
+    title: "List Users",
+    description: "Retrieve the users of a buyer organization with filtering, searching and sorting, optionally only members of one user group",
+    inputSchema: {
+      buyerId: z.string(),
+      userGroupID: z.string().optional(),
+      page: z.number().optional().default(1),
+      pageSize: z.number().optional().default(20),
+      search: z.string().optional(),
+      searchOn: z
+        .array(z.enum(["ID", "Username", "FirstName", "LastName", "Email"]))
+        .optional(),
+      sortBy: z
+        .array(
+          z.enum([
+            "ID",
+            "Username",
+            "FirstName",
+            "LastName",
+            "Email",
+            "DateCreated",
+            "!ID",
+            "!Username",
+            "!FirstName",
+            "!LastName",
+            "!Email",
+            "!DateCreated"
+          ])
+        )
+        .optional(),
+      ...filterInputs,
+      ...pagingInputs,
+    },
+  },
+  async ({ allPages, maxItems, buyerId, ...input }) => {
+    try {
+      const result = allPages
+        ? await orderCloudClient.users.listAll(
+            (page) => orderCloudClient.users.listUsers(buyerId, { ...input, ...page }),
+            { maxItems },
+          )
+        : await orderCloudClient.users.listUsers(buyerId, input)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error listing users", error)
+    }
+  }
+)
+
+// Tool: Find Users
+server.registerTool(
+  "find_users",
+  {
+    title: "Find Users",
+    description: "Look up users by ID, username, name or email across every buyer organization, e.g. to find which buyer a user belongs to",
+    inputSchema: {
+      query: z.string().describe("ID, username, name or email, or part of one"),
+      maxBuyers: z.number().int().positive().optional().default(100).describe("Stop after searching this many buyers"),
+    },
+  },
+  async ({ query, maxBuyers }) => {
+    try {
+      const buyers = await orderCloudClient.buyers.listAll(
+        (page) => orderCloudClient.buyers.listBuyers(page),
+        { maxItems: maxBuyers },
+      )
+      // one buyer failing (e.g. no access) shouldn't hide the matches in the others
+      const searches = await Promise.allSettled(
+        buyers.Items.map(async (buyer) => {
+          const users = await orderCloudClient.users.listUsers(buyer.ID!, {
+            search: query,
+            searchOn: ["ID", "Username", "FirstName", "LastName", "Email"],
+            pageSize: 20,
+          })
+          return users.Items.map((user) => ({ BuyerID: buyer.ID, BuyerName: buyer.Name, ...user }))
+        }),
+      )
+      const failedBuyers = searches.flatMap((search, i) =>
+        search.status === "rejected"
+          ? [{ BuyerID: buyers.Items[i].ID, error: describeError(`Error searching buyer ${buyers.Items[i].ID}`, search.reason) }]
+          : [],
+      )
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                Items: searches.flatMap((search) => (search.status === "fulfilled" ? search.value : [])),
+                BuyersSearched: buyers.Items.length,
+                BuyersTruncated: buyers.Meta.Truncated,
+                ...(failedBuyers.length > 0 && { FailedBuyers: failedBuyers }),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error finding users", error)
+    }
+  },
+)
+
+// Tool: Get User by ID
+server.registerTool(
+  "get_user",
+  {
+    title: "Get User",
+    description: "Retrieve a specific user of a buyer organization, with their active state and last activity",
+    inputSchema: {
+      buyerId: z.string(),
+      userId: z.string(),
+    },
+  },
+  async ({ buyerId, userId }) => {
+    try {
+      const result = await orderCloudClient.users.getUser(buyerId, userId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error getting user", error)
+    }
+  },
+)
+
+// Tool: Create User
+server.registerTool(
+  "create_user",
+  {
+    title: "Create User",
+    description: "Create a new user in a buyer organization",
+    inputSchema: {
+      buyerId: z.string(),
+      id: z.string().optional(),
+      ...userInputs,
+      username: z.string(),
+      password: z.string().optional().describe("Leave out to have the user set one through a password reset"),
+      active: z.boolean().optional().default(true),
+    },
+  },
+  async ({ buyerId, id, password, ...input }) => {
+    try {
+      const user = { ...(id && { ID: id }), ...toUser(input), ...(password && { Password: password }) } as User
+      const result = await orderCloudClient.users.createUser(buyerId, user)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error creating user", error)
+    }
+  },
+)
+
+// Tool: Update User (Full Update)
+server.registerTool(
+  "update_user",
+  {
+    title: "Update User",
+    description: "Update an existing buyer user in OrderCloud (full update - PUT); fields left out are cleared",
+    inputSchema: {
+      buyerId: z.string(),
+      userId: z.string(),
+      ...userInputs,
+      username: z.string(),
+    },
+  },
+  async ({ buyerId, userId, ...input }) => {
+    try {
+      const user = { ID: userId, ...toUser(input) } as User
+      const result = await orderCloudClient.users.updateUser(buyerId, userId, user)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error updating user", error)
+    }
+  },
+)
+
+// Tool: Patch User (Partial Update)
+server.registerTool(
+  "patch_user",
+  {
+    title: "Patch User",
+    description: "Partially update an existing buyer user in OrderCloud (PATCH)",
+    inputSchema: {
+      buyerId: z.string(),
+      userId: z.string(),
+      ...userInputs,
+    },
+  },
+  async ({ buyerId, userId, ...input }) => {
+    try {
+      const result = await orderCloudClient.users.patchUser(buyerId, userId, toUser(input))
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error patching user", error)
+    }
+  },
+)
+
+// Tool: Deactivate User
+server.registerTool(
+  "deactivate_user",
+  {
+    title: "Deactivate User",
+    description: "Stop a buyer user from signing in without deleting them or their orders; patch_user with active true undoes it",
+    inputSchema: {
+      buyerId: z.string(),
+      userId: z.string(),
+    },
+  },
+  async ({ buyerId, userId }) => {
+    try {
+      const result = await orderCloudClient.users.patchUser(buyerId, userId, { Active: false })
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error deactivating user", error)
+    }
+  },
+)
+
+// Tool: Delete User
+server.registerTool(
+  "delete_user",
+  {
+    title: "Delete User",
+    description: "Delete a user from a buyer organization; consider deactivate_user to keep their history",
+    inputSchema: {
+      buyerId: z.string(),
+      userId: z.string(),
+    },
+  },
+  async ({ buyerId, userId }) => {
+    try {
+      await orderCloudClient.users.deleteUser(buyerId, userId)
+      return {
+        content: [
+          {
+            type: "text",
+            text: `User ${userId} deleted successfully from buyer ${buyerId}`,
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error deleting user", error)
+    }
+  },
+)
+
+// Tool: Move User
+server.registerTool(
+  "move_user",
+  {
+    title: "Move User",
+    description: "Move a user to another buyer organization; their user group memberships and assignments stay behind",
+    inputSchema: {
+      buyerId: z.string(),
+      userId: z.string(),
+      newBuyerId: z.string(),
+      orders: z
+        .enum(["None", "Unsubmitted", "All"])
+        .optional()
+        .default("Unsubmitted")
+        .describe("Which of the user's orders move along with them"),
+    },
+  },
+  async ({ buyerId, userId, newBuyerId, orders }) => {
+    try {
+      const result = await orderCloudClient.users.moveUser(buyerId, userId, newBuyerId, orders)
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error moving user", error)
+    }
+  },
+)
+
+// Tool: Reset User Password
+server.registerTool(
+  "reset_user_password",
+  {
+    title: "Reset User Password",
+    description:
+      "Set a new password for a buyer user. Leave out password to generate a random one, which is returned once so it can be passed on to the user.",
+    inputSchema: {
+      buyerId: z.string(),
+      userId: z.string(),
+      password: z.string().optional(),
+    },
+  },
+  async ({ buyerId, userId, password }) => {
+    try {
+      const newPassword = password ?? generatePassword()
+      await orderCloudClient.users.patchUser(buyerId, userId, { Password: newPassword })
+      return {
+        content: [
+          {
+            type: "text",
+            text: password ? `Password of user ${userId} updated` : `Password of user ${userId} reset to: ${newPassword}`,
+          },
+        ],
+      }
+    } catch (error) {
+      return toolError("Error resetting user password", error)
+    }
+  },
+)
+}
@@ -1,19 +1,41 @@
+import { AsyncLocalStorage } from "node:async_hooks"
+
+export interface DebugLogEntry {
+  timestamp: string
+  operation: string
+  params?: any
+  result?: any
+  error?: Error
+  duration?: number
+}
+
+// Where a session's debug logs are kept
+export interface DebugLogBuffer {
+  logs: DebugLogEntry[]
+}
+
+// buffer of the HTTP session handling the current request, so sessions never read or clear each other's logs
+const sessionBuffer = new AsyncLocalStorage<DebugLogBuffer>()
+
 /**
  * Debug utilities for MCP server development
  * These utilities help debug without interfering with MCP protocol
  */
 export class DebugLogger {
-  static logs: Array<{
-    timestamp: string
-    operation: string
-    params?: any
-    result?: any
-    error?: Error
-    duration?: number
-  }> = []
+  // used outside of any session, e.g. over stdio
+  private static processBuffer: DebugLogBuffer = { logs: [] }
   
   static maxLogs = 100
 
+  private static get buffer(): DebugLogBuffer {
+    return sessionBuffer.getStore() ?? this.processBuffer
+  }
+
+  // Run fn with everything it logs, and everything it reads back, kept in buffer
+  static withBuffer<T>(buffer: DebugLogBuffer, fn: () => T): T {
+    return sessionBuffer.run(buffer, fn)
+  }
+
   static log(operation: string, params?: any, result?: any, error?: Error, duration?: number) {
     const debugInfo = {
       timestamp: new Date().toISOString(),
@@ -24,11 +46,12 @@ export class DebugLogger {
       duration
     }
     
-    this.logs.push(debugInfo)
+    const buffer = this.buffer
+    buffer.logs.push(debugInfo)
     
     // Keep only the last maxLogs entries
-    if (this.logs.length > this.maxLogs) {
-      this.logs = this.logs.slice(-this.maxLogs)
+    if (buffer.logs.length > this.maxLogs) {
+      buffer.logs = buffer.logs.slice(-this.maxLogs)
     }
     
     // Note: Removed console.log to avoid interfering with MCP protocol
@@ -36,15 +59,16 @@ export class DebugLogger {
   }
 
   static getLogs() {
-    return [...this.logs]
+    return [...this.buffer.logs]
   }
 
   static clearLogs() {
-    this.logs = []
+    this.buffer.logs = []
   }
 
   static getLastLog() {
-    return this.logs.length > 0 ? this.logs[this.logs.length - 1] : null
+    const { logs } = this.buffer
+    return logs.length > 0 ? logs[logs.length - 1] : null
   }
 }
 
@@ -0,0 +1,88 @@
+import { AsyncLocalStorage } from "node:async_hooks"
+
+// A write request captured instead of sent
+export interface PlannedRequest {
+  method: string
+  path: string
+  query?: Record<string, unknown>
+  body?: unknown
+  // resource as it is now, fetched from the same path; null when it doesn't exist yet
+  current?: unknown
+  diff?: FieldChange[]
+}
+
+export interface FieldChange {
+  field: string
+  from?: unknown
+  to?: unknown
+}
+
+interface DryRunContext {
+  requests: PlannedRequest[]
+}
+
+const storage = new AsyncLocalStorage<DryRunContext>()
+
+// Run fn with every write request recorded rather than sent; reads still reach OrderCloud
+export async function runDryRun<T>(fn: () => Promise<T>): Promise<{ result?: T; error?: unknown; requests: PlannedRequest[] }> {
+  const context: DryRunContext = { requests: [] }
+  try {
+    const result = await storage.run(context, fn)
+    return { result, requests: context.requests }
+  } catch (error) {
+    return { error, requests: context.requests }
+  }
+}
+
+export function isDryRun(): boolean {
+  return storage.getStore() !== undefined
+}
+
+export function recordRequest(request: PlannedRequest) {
+  storage.getStore()?.requests.push(request)
+}
+
+// Run fn as a real request even inside a dry run, e.g. renewing a token
+export function outsideDryRun<T>(fn: () => T): T {
+  return storage.exit(fn)
+}
+
+/**
+ * Field-level changes a request would make to the current resource.
+ * PATCH bodies are merged onto the resource the way OrderCloud applies them,
+ * PUT bodies replace it and DELETE removes it entirely.
+ */
+export function diffRequest(method: string, current: unknown, body: unknown): FieldChange[] {
+  switch (method) {
+    case "PATCH":
+      return diffValues(current, mergePatch(current, body))
+    case "PUT":
+      return diffValues(current, body)
+    case "DELETE":
+      return current === null || current === undefined ? [] : [{ field: "(resource)", to: "(deleted)" }]
+    default:
+      return []
+  }
+}
+
+function mergePatch(target: unknown, patch: unknown): unknown {
+  if (!isPlainObject(patch) || !isPlainObject(target)) return patch
+  const merged: Record<string, unknown> = { ...target }
+  for (const [key, value] of Object.entries(patch)) {
+    merged[key] = mergePatch(target[key], value)
+  }
+  return merged
+}
+
+function diffValues(from: unknown, to: unknown, field = ""): FieldChange[] {
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = new Set([...Object.keys(from), ...Object.keys(to)])
+    return [...keys].flatMap((key) => (key in to ? diffValues(from[key], to[key], field ? `${field}.${key}` : key) : []))
+  }
+  if (JSON.stringify(from) === JSON.stringify(to)) return []
+  return [{ field: field || "(resource)", from, to }]
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
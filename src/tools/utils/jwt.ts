@@ -0,0 +1,36 @@
+/**
+ * Helpers for reading OrderCloud access tokens (JWTs).
+ * Tokens are decoded only, never verified - OrderCloud does that on every request.
+ */
+export interface AccessTokenClaims {
+  usr?: string // username
+  u?: string // user ID
+  usrtype?: string // admin, buyer or supplier
+  cid?: string // client ID
+  imp?: string // impersonating user ID
+  role?: string | string[]
+  iss?: string
+  aud?: string
+  exp?: number
+  nbf?: number
+  iat?: number
+  [claim: string]: unknown
+}
+
+export function decodeAccessToken(token: string): AccessTokenClaims {
+  const payload = token.split(".")[1]
+  if (!payload) {
+    throw new Error("Access token is not a JWT")
+  }
+  return JSON.parse(Buffer.from(payload, "base64url").toString("utf8"))
+}
+
+export function getTokenRoles(claims: AccessTokenClaims): string[] {
+  if (!claims.role) return []
+  return Array.isArray(claims.role) ? claims.role : [claims.role]
+}
+
+// JWT times are seconds since the epoch
+export function claimDate(seconds?: number): string | null {
+  return seconds ? new Date(seconds * 1000).toISOString() : null
+}
@@ -0,0 +1,37 @@
+import { z } from "zod"
+import { DEFAULT_MAX_LIST_ITEMS } from "../clients/base-client.js"
+import { FILTER_FIELD_PATTERN, FILTER_OPERATORS } from "./query-builder.js"
+
+// Inputs shared by every list tool for fetching all pages in one call
+export const pagingInputs = {
+  allPages: z
+    .boolean()
+    .optional()
+    .describe("Fetch every page instead of just one, ignoring page and pageSize"),
+  maxItems: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(`With allPages, stop after this many items (default ${DEFAULT_MAX_LIST_ITEMS})`),
+}
+
+const filterValue = z.union([z.string(), z.number(), z.boolean()])
+
+// Inputs shared by every list tool for narrowing results by field values
+export const filterInputs = {
+  filters: z
+    .record(z.any())
+    .optional()
+    .describe("Raw filters by field with OrderCloud operators inline, e.g. { \"Name\": \"Shirt*\", \"xp.Color\": \"Red|Blue\" }"),
+  conditions: z
+    .array(
+      z.object({
+        field: z.string().regex(FILTER_FIELD_PATTERN).describe("Property name or xp path, e.g. Name or xp.Color"),
+        operator: z.enum(FILTER_OPERATORS),
+        value: z.union([filterValue, z.array(filterValue)]).describe("Matched literally; a list only with the in operator"),
+      }),
+    )
+    .optional()
+    .describe("Structured filters, all of which must match, e.g. [{ field: \"Price\", operator: \"gt\", value: 10 }]"),
+}
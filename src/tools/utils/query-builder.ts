@@ -0,0 +1,137 @@
+export const FILTER_OPERATORS = ["eq", "ne", "gt", "gte", "lt", "lte", "startsWith", "endsWith", "contains", "in"] as const
+
+export type FilterOperator = (typeof FILTER_OPERATORS)[number]
+export type FilterValue = string | number | boolean
+
+// One filter in structured form, e.g. { field: "xp.Color", operator: "in", value: ["Red", "Blue"] }
+export interface FilterCondition {
+  field: string
+  operator: FilterOperator
+  value: FilterValue | FilterValue[]
+}
+
+// Options every OrderCloud list endpoint understands
+export interface ListQueryOptions {
+  search?: string
+  searchOn?: string[]
+  searchType?: string
+  sortBy?: string[]
+  page?: number
+  pageSize?: number
+  // raw filter values by field, operators written inline, e.g. { Price: ">10", Name: "Shirt*" }
+  filters?: Record<string, any>
+  conditions?: FilterCondition[]
+}
+
+export type QueryParams = Record<string, string | number | boolean | string[]>
+
+// Model fields and xp paths, e.g. Name, xp.Color, xp.Specs.Size
+export const FILTER_FIELD_PATTERN = /^[A-Za-z_]\w*(\.\w+)*$/
+
+// List options that share the query string with filters, so they can't be filtered on
+const RESERVED_PARAMS = new Set(["search", "searchOn", "searchType", "sortBy", "page", "pageSize", "depth"])
+
+/**
+ * Builds OrderCloud list query strings. Filters become top-level parameters
+ * (?Name=Shirt*&xp.Color=Red|Blue&Price=>10); repeating a field ANDs its values.
+ */
+export class QueryBuilder {
+  private params: QueryParams = {}
+
+  // Search, sort, paging and filters from a list method's options
+  list(options?: ListQueryOptions): this {
+    if (!options) return this
+
+    this.param("search", options.search)
+    if (options.searchOn && options.searchOn.length > 0) this.param("searchOn", options.searchOn.join(","))
+    this.param("searchType", options.searchType)
+    if (options.sortBy && options.sortBy.length > 0) this.param("sortBy", options.sortBy.join(","))
+    this.param("page", options.page)
+    this.param("pageSize", options.pageSize)
+
+    for (const [field, value] of Object.entries(options.filters ?? {})) {
+      this.filter(field, value)
+    }
+    for (const condition of options.conditions ?? []) {
+      this.where(condition.field, condition.operator, condition.value)
+    }
+    return this
+  }
+
+  // Plain query parameter; undefined, null and empty strings are left out
+  param(key: string, value: FilterValue | undefined | null): this {
+    if (value !== undefined && value !== null && value !== "") {
+      this.params[key] = value
+    }
+    return this
+  }
+
+  // Raw filter value with any operators already in it; an array ANDs its values
+  filter(field: string, value: FilterValue | FilterValue[]): this {
+    validateField(field)
+    for (const item of Array.isArray(value) ? value : [value]) {
+      const existing = this.params[field]
+      const encoded = String(item)
+      this.params[field] = existing === undefined ? encoded : [...(Array.isArray(existing) ? existing : [String(existing)]), encoded]
+    }
+    return this
+  }
+
+  // Structured filter, with the value escaped so it is matched literally
+  where(field: string, operator: FilterOperator, value: FilterValue | FilterValue[]): this {
+    return this.filter(field, encodeCondition(field, operator, value))
+  }
+
+  build(): QueryParams {
+    return { ...this.params }
+  }
+}
+
+function validateField(field: string) {
+  if (!FILTER_FIELD_PATTERN.test(field)) {
+    throw new Error(`Invalid filter field "${field}": use a property name such as Name or an xp path such as xp.Color`)
+  }
+  if (RESERVED_PARAMS.has(field)) {
+    throw new Error(`"${field}" is a list option, not a filterable field`)
+  }
+}
+
+// * | ! < > are operators in OrderCloud filter values; a backslash makes them literal
+function escapeValue(value: FilterValue): string {
+  return String(value)
+    .replace(/[\\*|]/g, "\\$&")
+    .replace(/^[!<>]/, "\\$&")
+}
+
+function encodeCondition(field: string, operator: FilterOperator, value: FilterValue | FilterValue[]): string {
+  if (operator === "in") {
+    const values = Array.isArray(value) ? value : [value]
+    if (values.length === 0) throw new Error(`Filter on "${field}": "in" needs at least one value`)
+    return values.map(escapeValue).join("|")
+  }
+  if (Array.isArray(value)) {
+    throw new Error(`Filter on "${field}": only the "in" operator takes a list of values`)
+  }
+
+  const escaped = escapeValue(value)
+  switch (operator) {
+    case "eq":
+      return escaped
+    case "ne":
+      return `!${escaped}`
+    case "gt":
+      return `>${escaped}`
+    case "gte":
+      return `>=${escaped}`
+    case "lt":
+      return `<${escaped}`
+    case "lte":
+      return `<=${escaped}`
+    case "startsWith":
+      return `${escaped}*`
+    case "endsWith":
+      return `*${escaped}`
+    case "contains":
+      return `*${escaped}*`
+  }
+}
@@ -0,0 +1,72 @@
+import { sleep } from "./retry.js"
+
+export interface RequestLimits {
+  // requests allowed in flight at once
+  maxConcurrent: number
+  // requests started per second; 0 leaves the rate uncapped
+  requestsPerSecond: number
+}
+
+export const DEFAULT_REQUEST_LIMITS: RequestLimits = {
+  maxConcurrent: 8,
+  requestsPerSecond: 20,
+}
+
+export interface RequestLimiterStats extends RequestLimits {
+  inFlight: number
+  queued: number
+}
+
+/**
+ * Caps how many OrderCloud requests run at once and spaces out their starts,
+ * so bulk tool work queues up here instead of tripping API throttling.
+ * Waiting requests start in the order they arrived.
+ */
+export class RequestLimiter {
+  private limits: RequestLimits
+  private inFlight = 0
+  private waiting: (() => void)[] = []
+  private nextStartAt = 0
+
+  constructor(limits: Partial<RequestLimits> = {}) {
+    this.limits = { ...DEFAULT_REQUEST_LIMITS, ...limits }
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire()
+    try {
+      return await task()
+    } finally {
+      this.release()
+    }
+  }
+
+  stats(): RequestLimiterStats {
+    return { ...this.limits, inFlight: this.inFlight, queued: this.waiting.length }
+  }
+
+  private async acquire() {
+    if (this.inFlight < this.limits.maxConcurrent && this.waiting.length === 0) {
+      this.inFlight++
+    } else {
+      // release() hands its slot straight to the next waiter
+      await new Promise<void>((resolve) => this.waiting.push(resolve))
+    }
+
+    if (this.limits.requestsPerSecond > 0) {
+      const now = Date.now()
+      const startAt = Math.max(now, this.nextStartAt)
+      this.nextStartAt = startAt + 1000 / this.limits.requestsPerSecond
+      if (startAt > now) await sleep(startAt - now)
+    }
+  }
+
+  private release() {
+    const next = this.waiting.shift()
+    if (next) {
+      next()
+    } else {
+      this.inFlight--
+    }
+  }
+}
@@ -0,0 +1,147 @@
+export interface CacheOptions {
+  // lifetime of a cached response when its resource has no TTL of its own
+  defaultTtlSeconds: number
+  // lifetimes by resource, e.g. { products: 30, categories: 600 }; 0 stops a resource being cached
+  ttlSeconds: Record<string, number>
+  // entries kept before the oldest are dropped
+  maxEntries: number
+}
+
+// Structure changes less often than products and prices; buyer views change with impersonation
+export const DEFAULT_CACHE_OPTIONS: CacheOptions = {
+  defaultTtlSeconds: 60,
+  ttlSeconds: { catalogs: 300, categories: 300, buyers: 300, suppliers: 300, me: 30 },
+  maxEntries: 1000,
+}
+
+export interface CacheStats {
+  entries: number
+  hits: number
+  misses: number
+  invalidations: number
+  defaultTtlSeconds: number
+  ttlSeconds: Record<string, number>
+}
+
+interface CacheEntry {
+  data: unknown
+  resource: string
+  expiresAt: number
+}
+
+/**
+ * In-memory cache of OrderCloud GET responses, keyed by path and query.
+ *
+ * A successful write drops every entry under the same top-level resource
+ * (a PATCH to v1/catalogs/x/categories/y clears cached catalogs and categories)
+ * along with buyer views under v1/me and every cached assignment list, since deleting
+ * or moving a resource changes the assignments that point at it from elsewhere
+ * (v1/catalogs/x/productassignments after a product write). Assignment writes link
+ * resources together, so they clear the whole cache.
+ */
+export class ResponseCache {
+  private options: CacheOptions
+  private entries = new Map<string, CacheEntry & { path: string }>()
+  private hits = 0
+  private misses = 0
+  private invalidations = 0
+
+  constructor(options: Partial<CacheOptions> = {}) {
+    this.options = { ...DEFAULT_CACHE_OPTIONS, ...options }
+  }
+
+  get(path: string, params?: unknown): unknown {
+    const key = cacheKey(path, params)
+    const entry = this.entries.get(key)
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.entries.delete(key)
+      this.misses++
+      return undefined
+    }
+    this.hits++
+    // callers may modify what they get back, so never hand out the cached object itself
+    return structuredClone(entry.data)
+  }
+
+  set(path: string, params: unknown, data: unknown) {
+    const resource = resourceOf(path)
+    const ttl = this.options.ttlSeconds[resource] ?? this.options.defaultTtlSeconds
+    if (ttl <= 0) return
+
+    const key = cacheKey(path, params)
+    this.entries.delete(key)
+    this.entries.set(key, { path: normalize(path), data: structuredClone(data), resource, expiresAt: Date.now() + ttl * 1000 })
+
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (this.entries.size > this.options.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!)
+    }
+  }
+
+  // Forget everything a write to this path may have changed
+  invalidate(path: string) {
+    const written = normalize(path)
+    if (/assignments/i.test(written)) {
+      this.clear()
+      return
+    }
+
+    const root = topLevel(written)
+    const roots = [root, ...(RELATED_ROOTS[root] ?? []), "v1/me"]
+    for (const [key, entry] of this.entries) {
+      if (roots.includes(topLevel(entry.path)) || /assignments/i.test(entry.path)) {
+        this.entries.delete(key)
+        this.invalidations++
+      }
+    }
+  }
+
+  // Forget cached buyer views, e.g. when the impersonated user changes
+  invalidateBuyerViews() {
+    this.invalidate("v1/me")
+  }
+
+  clear(): number {
+    const cleared = this.entries.size
+    this.entries.clear()
+    this.invalidations += cleared
+    return cleared
+  }
+
+  stats(): CacheStats {
+    return {
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      invalidations: this.invalidations,
+      defaultTtlSeconds: this.options.defaultTtlSeconds,
+      ttlSeconds: this.options.ttlSeconds,
+    }
+  }
+}
+
+// Resources a write elsewhere also changes: shipping an item updates QuantityShipped and the order status
+const RELATED_ROOTS: Record<string, string[]> = {
+  "v1/shipments": ["v1/orders"],
+}
+
+function normalize(path: string): string {
+  return path.replace(/^\/+/, "").split("?")[0]
+}
+
+function cacheKey(path: string, params: unknown): string {
+  const query = params && typeof params === "object" ? Object.entries(params).sort(([a], [b]) => a.localeCompare(b)) : []
+  return `${normalize(path)}?${JSON.stringify(query)}`
+}
+
+// v1/products/p1/variants -> v1/products
+function topLevel(path: string): string {
+  return path.split("/").slice(0, 2).join("/")
+}
+
+// The collection a path reads from: v1/catalogs/c1/categories/x -> categories, v1/me/products -> me
+function resourceOf(path: string): string {
+  const [, ...segments] = normalize(path).split("/")
+  if (segments[0] === "me") return "me"
+  return segments.filter((_, index) => index % 2 === 0).pop() ?? ""
+}
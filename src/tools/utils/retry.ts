@@ -0,0 +1,76 @@
+import type { AxiosError } from "axios"
+
+export interface RetryOptions {
+  // retries after the first attempt; 0 turns retrying off
+  maxRetries: number
+  // first backoff step, doubled on every further attempt
+  baseDelayMs: number
+  // cap on a single wait, for backoff and Retry-After alike
+  maxDelayMs: number
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+}
+
+// Methods that leave the same state behind however many times they are sent
+const IDEMPOTENT_METHODS = new Set(["get", "head", "options", "put", "delete"])
+
+// Failures that happen before the request reaches OrderCloud, so even a POST is safe to send again
+const NOT_SENT_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"])
+
+// Failures where the request may or may not have been processed
+const NETWORK_CODES = new Set(["ECONNRESET", "ECONNABORTED", "ETIMEDOUT", "EPIPE", "ERR_NETWORK", ...NOT_SENT_CODES])
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // marks a POST or PATCH as safe to repeat, such as a token request
+    idempotent?: boolean
+  }
+}
+
+/**
+ * Whether a failed request may be sent again. 429 means OrderCloud turned the
+ * request away, so any method can retry; 5xx and dropped connections only retry
+ * idempotent requests, since a POST may already have created something.
+ */
+export function isRetryable(error: AxiosError): boolean {
+  const config = error.config
+  if (!config) return false
+
+  const status = error.response?.status
+  if (status === 429) return true
+
+  const idempotent = config.idempotent ?? IDEMPOTENT_METHODS.has((config.method ?? "get").toLowerCase())
+  if (status !== undefined) return status >= 500 && idempotent
+
+  if (error.code && NOT_SENT_CODES.has(error.code)) return true
+  return Boolean(error.code && NETWORK_CODES.has(error.code)) && idempotent
+}
+
+// How long to wait before the given retry (1-based), or null when Retry-After asks for longer than the cap
+export function retryDelay(error: AxiosError, retry: number, options: RetryOptions): number | null {
+  const retryAfter = parseRetryAfter(error.response?.headers?.["retry-after"])
+  if (retryAfter !== null) {
+    return retryAfter <= options.maxDelayMs ? retryAfter : null
+  }
+
+  // full jitter keeps concurrent callers from retrying in lockstep
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (retry - 1))
+  return Math.round(Math.random() * ceiling)
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== "string" && typeof value !== "number") return null
+  if (typeof value === "string" && value.trim() === "") return null
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0) * 1000
+
+  const date = Date.parse(String(value))
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0)
+}
+
+export const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms))
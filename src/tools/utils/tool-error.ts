@@ -0,0 +1,72 @@
+import { OrderCloudError } from "../clients/ordercloud-error.js"
+import type { ApiError } from "../../types/types.js"
+
+// What to try next for the OrderCloud error codes tools run into most
+const ERROR_CODE_HINTS: Record<string, string> = {
+  IdExists: "Something with this ID already exists. Choose another ID, or change the existing one with the matching patch_ or update_ tool.",
+  NotFound: "Nothing matches that ID. IDs are case-sensitive; look the ID up with the matching list_ or get_ tool.",
+  InvalidRequest: "OrderCloud rejected the input. Check the fields named in Data against the tool's input.",
+  invalid_grant: "The credentials were rejected. Check the username, password or client secret of the current environment.",
+  invalid_client: "The client ID is unknown or not allowed this grant. Check the API client in the OrderCloud portal.",
+}
+
+// Fallbacks by HTTP status when no error code has a hint
+const STATUS_HINTS: Record<number, string> = {
+  401: "The access token was rejected. Run authenticate, or check the environment's credentials.",
+  403: "The token lacks a role this call needs. Authenticate as a user or API client that has it.",
+  409: "The request conflicts with the current state of the resource. Read it again and retry.",
+  429: "OrderCloud is throttling requests. Wait a moment, or lower ORDERCLOUD_REQUESTS_PER_SECOND.",
+}
+
+export interface ToolErrorPayload {
+  message: string
+  status?: number
+  errorCodes?: string[]
+  errors?: ApiError[]
+  request?: string
+  requestId?: string
+  hints?: string[]
+}
+
+// Machine-readable description of a failure, with hints for the error codes it carries
+export function describeError(summary: string, error: unknown): ToolErrorPayload {
+  const message = `${summary}: ${error instanceof Error ? error.message : String(error)}`
+  if (!(error instanceof OrderCloudError)) return { message }
+
+  const hints = [...new Set(error.errorCodes.map((code) => ERROR_CODE_HINTS[code]).filter(Boolean))]
+  if (hints.length === 0) {
+    const hint = error.status !== undefined ? (error.status >= 500 ? serverErrorHint : STATUS_HINTS[error.status]) : networkHint(error)
+    if (hint) hints.push(hint)
+  }
+
+  return {
+    message,
+    status: error.status,
+    ...(error.errors.length > 0 && { errorCodes: error.errorCodes, errors: error.errors }),
+    ...(error.method && error.path && { request: `${error.method} ${error.path}` }),
+    ...(error.requestId && { requestId: error.requestId }),
+    ...(hints.length > 0 && { hints }),
+  }
+}
+
+/**
+ * The result every tool returns when it fails: one text block holding
+ * { error: { message, status, errorCodes, errors, request, requestId, hints } },
+ * with any extra fields, such as a debug tool's diagnostics, next to error.
+ */
+export function toolError(summary: string, error: unknown, details: Record<string, unknown> = {}) {
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify({ error: describeError(summary, error), ...details }, null, 2) }],
+    isError: true,
+  }
+}
+
+const serverErrorHint = "OrderCloud failed to handle the request. Safe requests were already retried; try again later."
+
+function networkHint(error: OrderCloudError): string | undefined {
+  if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+    return "The request timed out. Try again, or raise ORDERCLOUD_TIMEOUT_MS."
+  }
+  if (error.code) return "OrderCloud could not be reached. Check the environment's base URL and the network."
+  return undefined
+}
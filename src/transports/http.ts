@@ -0,0 +1,195 @@
+import http, { type IncomingMessage, type ServerResponse } from "node:http"
+import { randomUUID, timingSafeEqual } from "node:crypto"
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js"
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js"
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js"
+import { SessionRegistry, type SessionContext } from "./session-registry.js"
+import { DebugLogger, type DebugLogBuffer } from "../tools/utils/debug.js"
+
+export type HttpTransportMode = "sse" | "streamable-http"
+
+export interface HttpServerOptions {
+  mode: HttpTransportMode
+  host: string
+  port: number
+  // builds the MCP server and OrderCloud client for a new session
+  createSession: () => SessionContext | Promise<SessionContext>
+  // bearer key every request except /health must present; the endpoint is open when unset
+  apiKey?: string
+  // sessions without requests for this long are closed
+  idleTimeoutMs: number
+  // extra fields for the health endpoint
+  health?: () => Record<string, unknown>
+}
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024
+
+/**
+ * Serves MCP over HTTP, either as Streamable HTTP on /mcp or as the older
+ * SSE transport on /sse + /messages. Each client session gets its own MCP server,
+ * OrderCloud client and debug log.
+ */
+export function startHttpServer(options: HttpServerOptions): http.Server {
+  const sessions = new SessionRegistry(options.idleTimeoutMs)
+  sessions.startSweeper()
+
+  const handleStreamableHttp = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = headerValue(req, "mcp-session-id")
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined
+    const existing = sessionId ? sessions.get(sessionId) : undefined
+
+    if (existing) {
+      await DebugLogger.withBuffer(existing.logs, () =>
+        (existing.transport as StreamableHTTPServerTransport).handleRequest(req, res, body),
+      )
+      return
+    }
+
+    if (req.method !== "POST" || sessionId || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, sessionId ? "Unknown or expired session ID" : "No valid session ID provided")
+      return
+    }
+
+    const logs: DebugLogBuffer = { logs: [] }
+    await DebugLogger.withBuffer(logs, async () => {
+      const context = await options.createSession()
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => sessions.add(id, transport, context, logs),
+      })
+      transport.onclose = () => {
+        if (transport.sessionId) void sessions.close(transport.sessionId)
+      }
+
+      await context.server.connect(transport)
+      await transport.handleRequest(req, res, body)
+    })
+  }
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    if (req.method === "GET" && url.pathname === "/sse") {
+      const logs: DebugLogBuffer = { logs: [] }
+      await DebugLogger.withBuffer(logs, async () => {
+        const context = await options.createSession()
+        const transport = new SSEServerTransport("/messages", res)
+        sessions.add(transport.sessionId, transport, context, logs)
+
+        res.on("close", () => void sessions.close(transport.sessionId))
+        await context.server.connect(transport)
+      })
+      return
+    }
+
+    if (req.method === "POST" && url.pathname === "/messages") {
+      const sessionId = url.searchParams.get("sessionId")
+      const session = sessionId ? sessions.get(sessionId) : undefined
+      if (!session) {
+        sendJsonRpcError(res, 404, "Unknown or expired session ID")
+        return
+      }
+      const body = await readJsonBody(req)
+      await DebugLogger.withBuffer(session.logs, () => (session.transport as SSEServerTransport).handlePostMessage(req, res, body))
+      return
+    }
+
+    sendJson(res, 404, { error: "Not found" })
+  }
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`)
+
+    try {
+      if (req.method === "GET" && url.pathname === "/health") {
+        sendJson(res, 200, {
+          status: "ok",
+          transport: options.mode,
+          sessions: sessions.size,
+          ...options.health?.(),
+        })
+        return
+      }
+
+      if (options.apiKey && !hasApiKey(req, options.apiKey)) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="ordercloud-mcp"')
+        sendJsonRpcError(res, 401, "Missing or invalid bearer key")
+        return
+      }
+
+      if (options.mode === "streamable-http") {
+        if (url.pathname !== "/mcp") {
+          sendJson(res, 404, { error: "Not found" })
+          return
+        }
+        await handleStreamableHttp(req, res)
+      } else {
+        await handleSse(req, res, url)
+      }
+    } catch (error) {
+      DebugLogger.log("http_request_error", { method: req.method, path: url.pathname }, undefined, error as Error)
+      if (!res.headersSent) {
+        const status = error instanceof RequestBodyError ? 400 : 500
+        sendJsonRpcError(res, status, error instanceof Error ? error.message : String(error))
+      }
+    }
+  })
+
+  httpServer.on("close", () => void sessions.closeAll())
+
+  httpServer.listen(options.port, options.host, () => {
+    const endpoint = options.mode === "streamable-http" ? "/mcp" : "/sse"
+    console.error(`OrderCloud MCP server listening on http://${options.host}:${options.port}${endpoint} (${options.mode})`)
+  })
+
+  return httpServer
+}
+
+class RequestBodyError extends Error {}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        reject(new RequestBodyError("Request body too large"))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on("end", () => {
+      if (size === 0) return resolve(undefined)
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")))
+      } catch {
+        reject(new RequestBodyError("Request body is not valid JSON"))
+      }
+    })
+    req.on("error", reject)
+  })
+}
+
+// Constant-time comparison of the Authorization bearer against the configured key
+function hasApiKey(req: IncomingMessage, apiKey: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(headerValue(req, "authorization") ?? "")
+  if (!match) return false
+  const presented = Buffer.from(match[1].trim())
+  const expected = Buffer.from(apiKey)
+  return presented.length === expected.length && timingSafeEqual(presented, expected)
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name]
+  return Array.isArray(value) ? value[0] : value
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" })
+  res.end(JSON.stringify(body))
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string) {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null })
+}
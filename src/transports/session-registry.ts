@@ -0,0 +1,77 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js"
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js"
+import OrderCloudClient from "../tools/ordercloud-client.js"
+import { DebugLogger, type DebugLogBuffer } from "../tools/utils/debug.js"
+
+// What a session owns: its MCP server and the OrderCloud client its tools talk through
+export interface SessionContext {
+  server: McpServer
+  orderCloudClient: OrderCloudClient
+}
+
+interface SessionEntry extends SessionContext {
+  transport: Transport
+  // debug logs of this session's requests only
+  logs: DebugLogBuffer
+  createdAt: Date
+  lastActivity: Date
+}
+
+/**
+ * Session-scoped OrderCloud clients keyed by MCP session ID, so one caller
+ * authenticating or switching environment never affects another. Sessions
+ * idle for longer than the timeout are closed by a periodic sweep.
+ */
+export class SessionRegistry {
+  private sessions = new Map<string, SessionEntry>()
+  private sweeper: NodeJS.Timeout | null = null
+
+  constructor(private idleTimeoutMs: number) {}
+
+  add(sessionId: string, transport: Transport, context: SessionContext, logs: DebugLogBuffer) {
+    const now = new Date()
+    this.sessions.set(sessionId, { ...context, transport, logs, createdAt: now, lastActivity: now })
+    DebugLogger.log("session_opened", { sessionId, sessions: this.sessions.size })
+  }
+
+  // Look up a session and mark it active
+  get(sessionId: string): SessionEntry | undefined {
+    const entry = this.sessions.get(sessionId)
+    if (entry) entry.lastActivity = new Date()
+    return entry
+  }
+
+  async close(sessionId: string, reason = "closed") {
+    const entry = this.sessions.get(sessionId)
+    if (!entry) return
+    this.sessions.delete(sessionId)
+    DebugLogger.log("session_closed", { sessionId, reason, sessions: this.sessions.size })
+    await entry.server.close().catch(() => undefined)
+  }
+
+  // Close every session that has not seen a request within the idle timeout
+  async evictIdle(now = Date.now()) {
+    const idle = [...this.sessions.entries()].filter(([, entry]) => now - entry.lastActivity.getTime() > this.idleTimeoutMs)
+    await Promise.all(idle.map(([sessionId]) => this.close(sessionId, "idle")))
+  }
+
+  startSweeper(intervalMs = Math.min(60_000, this.idleTimeoutMs)) {
+    this.stopSweeper()
+    this.sweeper = setInterval(() => void this.evictIdle(), intervalMs)
+    this.sweeper.unref()
+  }
+
+  stopSweeper() {
+    if (this.sweeper) clearInterval(this.sweeper)
+    this.sweeper = null
+  }
+
+  async closeAll() {
+    this.stopSweeper()
+    await Promise.all([...this.sessions.keys()].map((sessionId) => this.close(sessionId, "shutdown")))
+  }
+
+  get size(): number {
+    return this.sessions.size
+  }
+}
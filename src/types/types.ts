@@ -1,9 +1,13 @@
 // Sitecore OrderCloud API Types
+export type GrantType = "password" | "client_credentials" | "refresh_token"
+
 export interface AuthRequest {
-  username: string
-  password: string
+  username?: string
+  password?: string
   client_id: string
-  grant_type: "password"
+  client_secret?: string
+  refresh_token?: string
+  grant_type: GrantType
   scope?: string
 }
 
@@ -14,6 +18,17 @@ export interface AuthResponse {
   refresh_token?: string
 }
 
+// Credentials for any of the supported OAuth2 grants
+export interface OrderCloudCredentials {
+  grantType: GrantType
+  clientId: string
+  clientSecret?: string
+  username?: string
+  password?: string
+  refreshToken?: string
+  scope?: string
+}
+
 export interface Catalog {
   ID?: string
   Name: string
@@ -112,6 +127,8 @@ export interface ProductVariant {
     NotificationPoint?: number
     VariantLevelTracking?: boolean
   }
+  // the spec options that make up this variant
+  Specs?: LineItemSpec[]
   xp?: Record<string, any>
 }
 
@@ -126,6 +143,25 @@ export interface ListResponse<T> {
   }
 }
 
+// Every page of a list merged into one response
+export interface ListAllResponse<T> {
+  Items: T[]
+  Meta: {
+    TotalCount: number
+    TotalPages: number
+    PagesFetched: number
+    // true when the max-items cap stopped the walk before the last page
+    Truncated: boolean
+  }
+}
+
+// One entry of the Errors array OrderCloud returns with a failed request
+export interface ApiError {
+  ErrorCode: string
+  Message: string
+  Data?: any
+}
+
 // Category type
 export interface Category {
   ID?: string
@@ -223,6 +259,7 @@ export interface PriceSchedule {
   ApplyTax?: boolean
   ApplyShipping?: boolean
   Active?: boolean
+  PriceBreaks?: PriceBreak[]
   xp?: Record<string, any>
 }
 
@@ -254,3 +291,173 @@ export interface AddressAssignment {
   IsShipping?: boolean
 }
 
+
+// User type
+export interface User {
+  ID?: string
+  // buyer or supplier the user belongs to, read-only
+  CompanyID?: string
+  Username: string
+  // write-only; OrderCloud never returns it
+  Password?: string
+  FirstName?: string
+  LastName?: string
+  Email?: string
+  Phone?: string
+  TermsAccepted?: string
+  Active?: boolean
+  AvailableRoles?: string[]
+  DateCreated?: string
+  LastActive?: string
+  PasswordLastSetDate?: string
+  xp?: Record<string, any>
+}
+
+// Which of a user's orders go along when they move to another buyer
+export type UserOrderMoveOption = "None" | "Unsubmitted" | "All"
+
+// User Group type
+export interface UserGroup {
+  ID?: string
+  Name: string
+  Description?: string
+  xp?: Record<string, any>
+}
+
+// User Group Assignment type
+export interface UserGroupAssignment {
+  UserGroupID: string
+  UserID: string
+}
+
+// Order type
+export interface Order {
+  ID?: string
+  FromUserID?: string
+  FromCompanyID?: string
+  ToCompanyID?: string
+  BillingAddressID?: string
+  ShippingAddressID?: string
+  Comments?: string
+  LineItemCount?: number
+  Status?: "Unsubmitted" | "AwaitingApproval" | "Declined" | "Open" | "Completed" | "Canceled"
+  DateCreated?: string
+  DateSubmitted?: string
+  Subtotal?: number
+  ShippingCost?: number
+  TaxCost?: number
+  PromotionDiscount?: number
+  Total?: number
+  IsSubmitted?: boolean
+  xp?: Record<string, any>
+}
+
+// Spec option chosen for a line item or making up a variant
+export interface LineItemSpec {
+  SpecID: string
+  Name?: string
+  OptionID?: string
+  // free-text value, for specs that allow one
+  Value?: string
+  PriceMarkupType?: "NoMarkup" | "AmountPerQuantity" | "AmountTotal" | "Percentage"
+  PriceMarkup?: number
+}
+
+// Line item type; UnitPrice, LineSubtotal and LineTotal are computed by OrderCloud
+export interface LineItem {
+  ID?: string
+  ProductID: string
+  Quantity: number
+  DateAdded?: string
+  QuantityShipped?: number
+  UnitPrice?: number
+  PromotionDiscount?: number
+  LineTotal?: number
+  LineSubtotal?: number
+  CostCenter?: string
+  DateNeeded?: string
+  ShippingAddressID?: string
+  ShipFromAddressID?: string
+  Product?: Partial<Product>
+  Variant?: ProductVariant
+  ShippingAddress?: Address
+  ShipFromAddress?: Address
+  SupplierID?: string
+  Specs?: LineItemSpec[]
+  xp?: Record<string, any>
+}
+
+// Which side of an order to view it from: orders received, orders placed, or both
+export type OrderDirection = "Incoming" | "Outgoing" | "All"
+
+// Body of an order approval or decline
+export interface OrderApprovalInfo {
+  ApprovalRuleID?: string
+  Comments?: string
+  AllowResubmit?: boolean
+}
+
+export type PaymentType = "PurchaseOrder" | "CreditCard" | "SpendingAccount"
+
+// Attempt to authorize, capture, refund or void a payment, as recorded by the integration that ran it
+export interface PaymentTransaction {
+  ID?: string
+  Type: string
+  DateExecuted: string
+  Currency?: string
+  Amount?: number
+  Succeeded: boolean
+  ResultCode?: string
+  ResultMessage?: string
+  xp?: Record<string, any>
+}
+
+export interface Payment {
+  ID?: string
+  Type: PaymentType
+  DateCreated?: string
+  CreditCardID?: string
+  SpendingAccountID?: string
+  Description?: string
+  // the order total when left out
+  Amount?: number
+  Accepted?: boolean
+  Transactions?: PaymentTransaction[]
+  xp?: Record<string, any>
+}
+
+export interface Shipment {
+  ID?: string
+  BuyerID?: string
+  Shipper?: string
+  DateShipped?: string
+  DateDelivered?: string
+  TrackingNumber?: string
+  Cost?: number
+  Account?: string
+  FromAddressID?: string
+  ToAddressID?: string
+  FromAddress?: Address
+  ToAddress?: Address
+  xp?: Record<string, any>
+}
+
+// Quantity of one line item sent in a shipment
+export interface ShipmentItem {
+  OrderID: string
+  LineItemID: string
+  QuantityShipped: number
+  UnitPrice?: number
+  ProductID?: string
+  Product?: Partial<Product>
+  Variant?: ProductVariant
+  Specs?: LineItemSpec[]
+  xp?: Record<string, any>
+}
+
+// Impersonation token request type
+export interface ImpersonateTokenRequest {
+  ClientID: string
+  Roles: string[]
+  CustomRoles?: string[]
+}